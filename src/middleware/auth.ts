@@ -65,3 +65,12 @@ export const optionalAuth = async (req: OptionalAuthRequest, res: Response, next
         next();
     }
 };
+
+// Use after `auth`: only administrators may continue
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+    if (!(req as AuthenticatedRequest).player?.isAdmin) {
+        res.status(403).json({ error: 'Access denied. Administrator only.' });
+        return;
+    }
+    next();
+};
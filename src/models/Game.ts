@@ -15,11 +15,44 @@ import {
     GameBoardCell,
     CapturedStones,
     CapturedPosition,
-    GameMoveHistory
+    GameMoveHistory,
+    ScoreBreakdown,
+    BoardPosition,
+    GameClockResponse,
+    EndReason,
+    HandicapMode,
+    HandicapSuggestion,
+    HandicapSuggestionStatus
 } from '../types';
+import { createEmptyBoard, findGroup, hashBoard, playMove } from '../services/goEngine';
+import { scoreBoard } from '../services/scoring';
+import { createHandicapBoard, firstToMove, proposeHandicap } from '../services/handicap';
+import { replayMoves } from '../services/gameReplay';
+import { chargeTime, copyClock, createPlayerClock, TimeExpiredError, timeUntilFlag } from '../services/gameClock';
 
 export interface GameDocument extends IGame, Document { }
 
+const colorScoreSchema = new Schema({
+    stones: Number,
+    territory: Number,
+    prisoners: Number,
+    komi: Number,
+    total: Number
+}, { _id: false });
+
+const scoreSchema = new Schema({
+    scoringMethod: { type: String, enum: ['area', 'territory'] },
+    black: colorScoreSchema,
+    white: colorScoreSchema,
+    winner: { type: String, enum: ['black', 'white', null] },
+    margin: Number,
+    territory: {
+        black: [{ _id: false, x: Number, y: Number }],
+        white: [{ _id: false, x: Number, y: Number }],
+        neutral: [{ _id: false, x: Number, y: Number }]
+    }
+}, { _id: false });
+
 const gameSchema = new Schema<GameDocument>({
     gameId: {
         type: String,
@@ -28,7 +61,7 @@ const gameSchema = new Schema<GameDocument>({
     },
     status: {
         type: String,
-        enum: ['waiting', 'active', 'paused', 'completed', 'abandoned'] as GameSessionStatus[],
+        enum: ['waiting', 'active', 'paused', 'scoring', 'completed', 'abandoned'] as GameSessionStatus[],
         default: 'waiting'
     },
     players: [{
@@ -48,6 +81,13 @@ const gameSchema = new Schema<GameDocument>({
         isConnected: { type: Boolean, default: false },
         lastSeen: { type: Date, default: Date.now },
         timeRemaining: Number, // in seconds
+        clock: {
+            mainTime: Number, // in milliseconds
+            periodsLeft: Number,
+            periodTimeLeft: Number, // in milliseconds
+            stonesLeft: Number,
+            inOvertime: Boolean
+        },
         score: { type: Number, default: 0 },
         capturedStones: { type: Number, default: 0 }
     }],
@@ -64,16 +104,33 @@ const gameSchema = new Schema<GameDocument>({
             default: 'None'
         },
         timeLimit: Number, // in minutes
+        // Resolved clock preset, durations in milliseconds
+        clock: {
+            type: { type: String, enum: ['absolute', 'fischer', 'byoyomi', 'canadian'] },
+            mainTime: Number,
+            increment: Number,
+            maxTime: Number,
+            periods: Number,
+            periodTime: Number,
+            stonesPerPeriod: Number
+        },
         handicap: {
             type: Number,
             default: 0
         },
+        handicapPlacement: {
+            type: String,
+            enum: ['fixed', 'free'],
+            default: 'fixed'
+        },
         komi: {
             type: Number,
             default: 6.5
         },
         allowUndo: { type: Boolean, default: false },
-        allowResign: { type: Boolean, default: true }
+        allowResign: { type: Boolean, default: true },
+        rated: { type: Boolean, default: true },
+        handicapMode: { type: String, enum: ['manual', 'auto'] as HandicapMode[], default: 'manual' }
     },
     boardState: {
         currentTurn: {
@@ -93,6 +150,7 @@ const gameSchema = new Schema<GameDocument>({
             liberties: Number,
             groupId: String
         }]],
+        // Prisoners taken by each color
         capturedStones: {
             black: { type: Number, default: 0 },
             white: { type: Number, default: 0 }
@@ -109,13 +167,68 @@ const gameSchema = new Schema<GameDocument>({
             }],
             pass: { type: Boolean, default: false }
         }],
-        consecutivePasses: { type: Number, default: 0 }
+        consecutivePasses: { type: Number, default: 0 },
+        // Point the opponent may not retake next turn under simple ko
+        koPoint: {
+            x: Number,
+            y: Number
+        },
+        // Zobrist hash of every position reached, used for superko
+        positionHashes: [String]
     },
     gameRules: {
         suicideAllowed: { type: Boolean, default: false },
         koRule: { type: String, default: 'standard', enum: ['standard', 'superko'] },
         scoringMethod: { type: String, default: 'area', enum: ['area', 'territory'] }
     },
+    scoringState: {
+        deadStones: [{ _id: false, x: Number, y: Number }],
+        acceptedBy: [{
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        }]
+    },
+    finalScore: scoreSchema,
+    result: {
+        winner: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        winnerColor: String,
+        loser: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        endReason: {
+            type: String,
+            enum: ['resignation', 'timeout', 'normal', 'abandoned', 'annulled'] as EndReason[]
+        },
+        moveNumber: Number,
+        endedAt: Date,
+        matchId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Match'
+        }
+    },
+    undoRequest: {
+        requestedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        requestedAt: Date,
+        moveNumber: Number
+    },
+    handicapSuggestion: {
+        handicap: Number,
+        komi: Number,
+        rankGap: Number,
+        blackPlayerId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        status: { type: String, enum: ['pending', 'accepted', 'overridden'] as HandicapSuggestionStatus[] },
+        suggestedAt: Date
+    },
     metadata: {
         createdBy: {
             type: Schema.Types.ObjectId,
@@ -125,6 +238,7 @@ const gameSchema = new Schema<GameDocument>({
         createdAt: { type: Date, default: Date.now },
         startedAt: Date,
         lastActivity: { type: Date, default: Date.now },
+        turnStartedAt: Date,
         spectators: [{
             type: Schema.Types.ObjectId,
             ref: 'Player'
@@ -150,28 +264,21 @@ gameSchema.pre('save', function (next) {
 
 // Method to initialize board
 gameSchema.methods.initializeBoard = function (): void {
-    const size = this.gameSettings.boardSize;
-    this.boardState.board = Array(size).fill(null).map(() =>
-        Array(size).fill(null).map(() => ({
-            stone: null,
-            liberties: 4,
-            groupId: null
-        }))
-    );
+    const { boardSize, handicap, handicapPlacement } = this.gameSettings;
 
-    // Set edge liberties
-    for (let i = 0; i < size; i++) {
-        this.boardState.board[0][i].liberties = 3; // top edge
-        this.boardState.board[size - 1][i].liberties = 3; // bottom edge
-        this.boardState.board[i][0].liberties = 3; // left edge
-        this.boardState.board[i][size - 1].liberties = 3; // right edge
+    // Fixed handicap stones go straight onto the star points and white moves first;
+    // with free placement black starts on an empty board and places them as moves
+    if (handicapPlacement === 'free') {
+        this.boardState.board = createEmptyBoard(boardSize);
+        this.boardState.currentTurn = 'black';
+    } else {
+        this.boardState.board = createHandicapBoard(boardSize, handicap);
+        this.boardState.currentTurn = firstToMove(handicap);
     }
 
-    // Corner liberties
-    this.boardState.board[0][0].liberties = 2;
-    this.boardState.board[0][size - 1].liberties = 2;
-    this.boardState.board[size - 1][0].liberties = 2;
-    this.boardState.board[size - 1][size - 1].liberties = 2;
+    this.markModified('boardState.board');
+    this.boardState.koPoint = null;
+    this.boardState.positionHashes = [hashBoard(this.boardState.board)];
 };
 
 // Method to add a player
@@ -190,6 +297,45 @@ gameSchema.methods.addPlayer = function (playerData: GamePlayerData): void {
     });
 };
 
+// Method to propose handicap and komi from the two players' ratings, given in seat order. The
+// proposal is applied right away, with the weaker player moved to black, and waits for the creator.
+gameSchema.methods.suggestHandicap = function (ratings: [number, number]): HandicapSuggestion {
+    if (this.players.length !== 2) {
+        throw new Error('Both players must have joined');
+    }
+
+    const proposal = proposeHandicap(ratings, this.gameSettings.boardSize);
+    const blackPlayerId = this.players[proposal.black].playerId;
+    this.setHandicap(proposal.handicap, proposal.komi, blackPlayerId);
+
+    this.handicapSuggestion = {
+        handicap: proposal.handicap,
+        komi: proposal.komi,
+        rankGap: Math.round(proposal.rankGap * 10) / 10,
+        blackPlayerId,
+        status: 'pending',
+        suggestedAt: new Date()
+    };
+    return this.handicapSuggestion;
+};
+
+// Method to set handicap, komi and who takes black before the game starts
+gameSchema.methods.setHandicap = function (handicap: number, komi: number, blackPlayerId: Types.ObjectId): void {
+    if (this.status !== 'waiting') {
+        throw new Error('Handicap can only be changed before the game starts');
+    }
+
+    if (!this.players.some(p => p.playerId.toString() === blackPlayerId.toString())) {
+        throw new Error('Black must be one of the players');
+    }
+
+    this.gameSettings.handicap = handicap;
+    this.gameSettings.komi = komi;
+    this.players.forEach(p => {
+        p.color = p.playerId.toString() === blackPlayerId.toString() ? 'black' : 'white';
+    });
+};
+
 // Method to make a move
 gameSchema.methods.makeMove = function (playerId: Types.ObjectId, x: number, y: number, color: StoneColor): boolean {
     if (this.status !== 'active') {
@@ -200,13 +346,16 @@ gameSchema.methods.makeMove = function (playerId: Types.ObjectId, x: number, y:
         throw new Error('Not your turn');
     }
 
-    if (x < 0 || x >= this.gameSettings.boardSize || y < 0 || y >= this.gameSettings.boardSize) {
-        throw new Error('Invalid coordinates');
-    }
+    // Charge thinking time first; throws TimeExpiredError if the player has flagged
+    this.chargeClock(color);
 
-    if (this.boardState.board[y][x].stone !== null) {
-        throw new Error('Position already occupied');
-    }
+    // Resolve captures and liberties; throws IllegalMoveError for occupied points, suicide, ko and superko
+    const { board, captured, selfCaptured, koPoint, positionHash } = playMove(this.boardState.board, x, y, color, {
+        suicideAllowed: this.gameRules.suicideAllowed,
+        koRule: this.gameRules.koRule,
+        koPoint: this.boardState.koPoint,
+        positionHashes: this.boardState.positionHashes
+    });
 
     // Add move to history
     this.boardState.moveHistory.push({
@@ -215,19 +364,35 @@ gameSchema.methods.makeMove = function (playerId: Types.ObjectId, x: number, y:
         x,
         y,
         timestamp: new Date(),
-        capturedStones: [],
+        capturedStones: [...captured, ...selfCaptured],
         pass: false
     });
 
-    // Place stone
-    this.boardState.board[y][x].stone = color;
+    // Place stone and remove captured groups
+    this.boardState.board = board;
+    this.markModified('boardState.board');
+    this.boardState.koPoint = koPoint;
+    this.boardState.positionHashes.push(positionHash);
+
+    // Stones lost to suicide are prisoners for the opponent
+    const opponentColor: StoneColor = color === 'black' ? 'white' : 'black';
+    this.boardState.capturedStones[color] += captured.length;
+    this.boardState.capturedStones[opponentColor] += selfCaptured.length;
+
+    this.players.forEach(p => {
+        p.capturedStones += p.color === color ? captured.length : selfCaptured.length;
+    });
+
     this.boardState.moveCount += 1;
-    this.boardState.currentTurn = color === 'black' ? 'white' : 'black';
+    this.boardState.currentTurn = this.isPlacingHandicap() ? 'black' : opponentColor;
     this.boardState.lastMove = { x, y, color, timestamp: new Date() };
 
     // Reset consecutive passes
     this.boardState.consecutivePasses = 0;
 
+    // Playing on implicitly declines a pending takeback
+    this.undoRequest = null;
+
     return true;
 };
 
@@ -241,6 +406,12 @@ gameSchema.methods.passTurn = function (playerId: Types.ObjectId, color: StoneCo
         throw new Error('Not your turn');
     }
 
+    if (this.isPlacingHandicap()) {
+        throw new Error('Handicap stones must be placed before passing');
+    }
+
+    this.chargeClock(color);
+
     this.boardState.moveHistory.push({
         playerId,
         color,
@@ -253,9 +424,17 @@ gameSchema.methods.passTurn = function (playerId: Types.ObjectId, color: StoneCo
     this.boardState.currentTurn = color === 'black' ? 'white' : 'black';
     this.boardState.consecutivePasses += 1;
 
-    // Check for game end (two consecutive passes)
+    // Passing lifts any ko ban; the position itself is unchanged
+    this.boardState.koPoint = null;
+    this.undoRequest = null;
+
+    // Two consecutive passes move the game to dead stone marking
     if (this.boardState.consecutivePasses >= 2) {
-        this.status = 'completed';
+        this.status = 'scoring';
+        this.scoringState = { deadStones: [], acceptedBy: [] };
+
+        // Clocks stop while dead stones are negotiated
+        this.metadata.turnStartedAt = null;
     }
 
     return true;
@@ -263,6 +442,8 @@ gameSchema.methods.passTurn = function (playerId: Types.ObjectId, color: StoneCo
 
 // Method to get game state for Unity
 gameSchema.methods.getGameState = function (): GameStateResponse {
+    const clock = this.getClockState();
+
     return {
         gameId: this.gameId,
         status: this.status,
@@ -273,7 +454,7 @@ gameSchema.methods.getGameState = function (): GameStateResponse {
             color: p.color,
             isReady: p.isReady,
             isConnected: p.isConnected,
-            timeRemaining: p.timeRemaining,
+            timeRemaining: clock ? Math.ceil(clock.players[p.color].timeUntilFlag / 1000) : p.timeRemaining,
             score: p.score,
             capturedStones: p.capturedStones
         })),
@@ -283,8 +464,15 @@ gameSchema.methods.getGameState = function (): GameStateResponse {
             moveCount: this.boardState.moveCount,
             lastMove: this.boardState.lastMove,
             board: this.boardState.board,
-            capturedStones: this.boardState.capturedStones
+            capturedStones: this.boardState.capturedStones,
+            koPoint: this.boardState.koPoint
         },
+        scoringState: this.status === 'scoring' ? this.scoringState : undefined,
+        finalScore: this.finalScore,
+        undoRequest: this.undoRequest?.requestedBy ? this.undoRequest : null,
+        handicapSuggestion: this.handicapSuggestion?.status ? this.handicapSuggestion : null,
+        result: this.result?.endReason ? this.result : undefined,
+        clock,
         metadata: {
             createdAt: this.metadata.createdAt,
             startedAt: this.metadata.startedAt,
@@ -306,6 +494,268 @@ gameSchema.methods.startGame = function (): void {
     this.status = 'active';
     this.metadata.startedAt = new Date();
     this.initializeBoard();
+
+    // Start the clocks when the game is timed
+    const settings = this.gameSettings.clock;
+    if (settings?.type) {
+        this.players.forEach(p => {
+            p.clock = createPlayerClock(settings);
+            p.timeRemaining = Math.ceil(timeUntilFlag(p.clock, settings) / 1000);
+        });
+        this.metadata.turnStartedAt = this.metadata.startedAt;
+    }
+};
+
+// Method to check whether black is still placing free handicap stones
+gameSchema.methods.isPlacingHandicap = function (): boolean {
+    const { handicap, handicapPlacement } = this.gameSettings;
+    return handicapPlacement === 'free' && handicap >= 2 && this.boardState.moveHistory.length < handicap;
+};
+
+// Method to score the current position, honouring any stones marked dead
+gameSchema.methods.calculateScore = function (): ScoreBreakdown {
+    return scoreBoard(this.boardState.board, {
+        scoringMethod: this.gameRules.scoringMethod,
+        komi: this.gameSettings.komi,
+        capturedStones: this.boardState.capturedStones,
+        deadStones: this.scoringState?.deadStones ?? []
+    });
+};
+
+// Method to mark a group dead, or alive again if it is already marked
+gameSchema.methods.toggleDeadGroup = function (x: number, y: number): BoardPosition[] {
+    if (this.status !== 'scoring') {
+        throw new Error('Game is not in the scoring phase');
+    }
+
+    const group = findGroup(this.boardState.board, x, y);
+    if (!group) {
+        throw new Error('No stone at that position');
+    }
+
+    const isDead = (p: BoardPosition) => this.scoringState.deadStones.some(d => d.x === p.x && d.y === p.y);
+    const remaining = this.scoringState.deadStones
+        .filter(d => !group.stones.some(s => s.x === d.x && s.y === d.y))
+        .map(d => ({ x: d.x, y: d.y }));
+
+    this.scoringState.deadStones = group.stones.every(isDead) ? remaining : [...remaining, ...group.stones];
+
+    // Any change invalidates earlier acceptances
+    this.scoringState.acceptedBy = [];
+
+    return this.scoringState.deadStones;
+};
+
+// Method to accept the current dead stone marking; returns true once both players agree
+gameSchema.methods.acceptScore = function (playerId: Types.ObjectId): boolean {
+    if (this.status !== 'scoring') {
+        throw new Error('Game is not in the scoring phase');
+    }
+
+    if (!this.scoringState.acceptedBy.some(id => id.toString() === playerId.toString())) {
+        this.scoringState.acceptedBy.push(playerId);
+    }
+
+    const allAccepted = this.players.every(p =>
+        this.scoringState.acceptedBy.some(id => id.toString() === p.playerId.toString())
+    );
+
+    if (allAccepted) {
+        const score = this.calculateScore();
+        this.players.forEach(p => {
+            p.score = score[p.color].total;
+        });
+        this.finalScore = score;
+        this.finishGame('normal', score.winner);
+    }
+
+    return allAccepted;
+};
+
+// Method to leave the scoring phase and continue playing
+gameSchema.methods.resumePlay = function (): void {
+    if (this.status !== 'scoring') {
+        throw new Error('Game is not in the scoring phase');
+    }
+
+    this.status = 'active';
+    this.boardState.consecutivePasses = 0;
+    this.scoringState = { deadStones: [], acceptedBy: [] };
+    this.metadata.turnStartedAt = this.gameSettings.clock?.type ? new Date() : null;
+};
+
+// Method to ask the opponent to take back the requester's last move
+gameSchema.methods.requestUndo = function (playerId: Types.ObjectId): void {
+    if (!this.gameSettings.allowUndo) {
+        throw new Error('Undo is not allowed in this game');
+    }
+
+    if (this.status !== 'active') {
+        throw new Error('Game is not active');
+    }
+
+    const lastEntry = this.boardState.moveHistory[this.boardState.moveHistory.length - 1];
+    if (!lastEntry || lastEntry.playerId.toString() !== playerId.toString()) {
+        throw new Error('You can only take back your own last move');
+    }
+
+    this.undoRequest = {
+        requestedBy: playerId,
+        requestedAt: new Date(),
+        moveNumber: this.boardState.moveHistory.length
+    };
+};
+
+// Method to take back the last move or pass and log it in the chat
+gameSchema.methods.undoLastMove = function (): GameMoveHistory {
+    if (this.boardState.moveHistory.length === 0) {
+        throw new Error('No moves to undo');
+    }
+
+    // The player on move pays for the time used so far (no increment, as no move was made);
+    // throws TimeExpiredError if they have flagged
+    this.chargeClock(this.boardState.currentTurn, new Date(), false);
+
+    const undone = this.boardState.moveHistory.pop() as GameMoveHistory;
+    this.restoreBoardState();
+    this.undoRequest = null;
+
+    // The player back on move starts a fresh turn
+    if (this.metadata.turnStartedAt) {
+        this.metadata.turnStartedAt = new Date();
+    }
+
+    const mover = this.players.find(p => p.playerId.toString() === undone.playerId.toString());
+    const description = undone.pass ? 'pass' : `move at (${undone.x}, ${undone.y})`;
+    this.chat.push({
+        playerId: undone.playerId,
+        username: mover?.username,
+        message: `${mover?.username ?? undone.color} took back ${description} (move ${this.boardState.moveHistory.length + 1})`,
+        timestamp: new Date(),
+        type: 'system'
+    });
+
+    return undone;
+};
+
+// Method to rebuild board, prisoners, ko and turn state by replaying the move history
+gameSchema.methods.restoreBoardState = function (): void {
+    const state = replayMoves({
+        boardSize: this.gameSettings.boardSize,
+        handicap: this.gameSettings.handicap,
+        handicapPlacement: this.gameSettings.handicapPlacement,
+        suicideAllowed: this.gameRules.suicideAllowed,
+        koRule: this.gameRules.koRule
+    }, this.boardState.moveHistory);
+
+    this.boardState.board = state.board;
+    this.markModified('boardState.board');
+    this.boardState.capturedStones = state.capturedStones;
+    this.boardState.koPoint = state.koPoint;
+    this.boardState.positionHashes = state.positionHashes;
+    this.boardState.currentTurn = state.currentTurn;
+    this.boardState.moveCount = state.moveCount;
+    this.boardState.consecutivePasses = state.consecutivePasses;
+
+    const lastStone = [...this.boardState.moveHistory].reverse().find(m => !m.pass);
+    this.boardState.lastMove = lastStone
+        ? { x: lastStone.x, y: lastStone.y, color: lastStone.color, timestamp: lastStone.timestamp }
+        : undefined;
+
+    this.players.forEach(p => {
+        p.capturedStones = state.capturedStones[p.color];
+    });
+};
+
+// Method to deduct the time spent on the current turn from a player's clock
+gameSchema.methods.chargeClock = function (color: StoneColor, now: Date = new Date(), completedTurn: boolean = true): void {
+    const settings = this.gameSettings.clock;
+    const player = this.players.find(p => p.color === color);
+
+    if (!settings?.type || !player?.clock || !this.metadata.turnStartedAt) {
+        return;
+    }
+
+    const elapsed = now.getTime() - this.metadata.turnStartedAt.getTime();
+    const { clock, flagged } = chargeTime(player.clock, settings, elapsed, completedTurn);
+
+    if (flagged) {
+        throw new TimeExpiredError();
+    }
+
+    player.clock = clock;
+    player.timeRemaining = Math.ceil(timeUntilFlag(clock, settings) / 1000);
+    this.metadata.turnStartedAt = now;
+};
+
+// Method to flag a player whose time ran out and award the game to the opponent
+gameSchema.methods.handleTimeout = function (color: StoneColor): void {
+    const player = this.players.find(p => p.color === color);
+
+    if (player?.clock) {
+        player.clock = { ...copyClock(player.clock), mainTime: 0, periodsLeft: 0, periodTimeLeft: 0 };
+        player.timeRemaining = 0;
+    }
+
+    this.finishGame('timeout', color === 'black' ? 'white' : 'black');
+};
+
+// Method to resign; the opponent wins
+gameSchema.methods.resign = function (playerId: Types.ObjectId): void {
+    if (!this.gameSettings.allowResign) {
+        throw new Error('Resignation is not allowed in this game');
+    }
+
+    if (this.status !== 'active' && this.status !== 'scoring') {
+        throw new Error('Game is not active');
+    }
+
+    const player = this.players.find(p => p.playerId.toString() === playerId.toString());
+    if (!player) {
+        throw new Error('Player is not part of this game');
+    }
+
+    this.finishGame('resignation', player.color === 'black' ? 'white' : 'black');
+};
+
+// Method to end the game and record the result; winnerColor is null when nobody won
+gameSchema.methods.finishGame = function (endReason: EndReason, winnerColor: StoneColor | null): void {
+    const winner = winnerColor ? this.players.find(p => p.color === winnerColor) : undefined;
+    const loser = winnerColor ? this.players.find(p => p.color !== winnerColor) : undefined;
+
+    this.status = 'completed';
+    this.metadata.turnStartedAt = null;
+    this.undoRequest = null;
+    this.result = {
+        winner: winner?.playerId ?? null,
+        winnerColor,
+        loser: loser?.playerId ?? null,
+        endReason,
+        moveNumber: this.boardState.moveHistory.length,
+        endedAt: new Date()
+    };
+};
+
+// Method to report both clocks as they stand right now
+gameSchema.methods.getClockState = function (now: Date = new Date()): GameClockResponse | undefined {
+    const settings = this.gameSettings.clock;
+    if (!settings?.type) {
+        return undefined;
+    }
+
+    const turnStartedAt = this.metadata.turnStartedAt;
+    const running: StoneColor | null = this.status === 'active' && turnStartedAt ? this.boardState.currentTurn : null;
+
+    const players = {} as GameClockResponse['players'];
+    this.players.forEach(p => {
+        const stored = p.clock?.mainTime !== undefined ? p.clock : createPlayerClock(settings);
+        const clock = running === p.color
+            ? chargeTime(stored, settings, now.getTime() - turnStartedAt.getTime(), false).clock
+            : copyClock(stored);
+        players[p.color] = { ...clock, timeUntilFlag: timeUntilFlag(clock, settings) };
+    });
+
+    return { settings, running, turnStartedAt, serverTime: now, players };
 };
 
 // Indexes for efficient queries
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ILeaderboardEntry, LeaderboardMetric, LeaderboardPeriod } from '../types';
+
+export interface LeaderboardEntryDocument extends ILeaderboardEntry, Document { }
+
+const leaderboardEntrySchema = new Schema<LeaderboardEntryDocument>({
+    metric: {
+        type: String,
+        enum: ['rating', 'winRate', 'wins', 'points', 'streak', 'activity'] as LeaderboardMetric[],
+        required: true
+    },
+    period: {
+        type: String,
+        enum: ['all-time', 'monthly', 'weekly'] as LeaderboardPeriod[],
+        required: true
+    },
+    periodStart: { type: Date, default: null },
+    boardSize: {
+        type: Number,
+        enum: [9, 13, 19, null],
+        default: null
+    },
+    timeControl: {
+        type: String,
+        enum: ['None', 'Blitz', 'Rapid', 'Classical', null],
+        default: null
+    },
+    position: { type: Number, required: true },
+    playerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Player',
+        required: true
+    },
+    username: { type: String, required: true },
+    displayName: { type: String, required: true },
+    goRank: String,
+    value: { type: Number, required: true },
+    gamesPlayed: { type: Number, default: 0 },
+    gamesWon: { type: Number, default: 0 },
+    computedAt: { type: Date, required: true }
+});
+
+// Indexes for paging through a board and finding one player on it
+leaderboardEntrySchema.index({ metric: 1, period: 1, boardSize: 1, timeControl: 1, computedAt: -1, position: 1 });
+leaderboardEntrySchema.index({ metric: 1, period: 1, boardSize: 1, timeControl: 1, playerId: 1, computedAt: -1 });
+leaderboardEntrySchema.index({ computedAt: 1 });
+
+export const LeaderboardEntry = mongoose.model<LeaderboardEntryDocument>('LeaderboardEntry', leaderboardEntrySchema);
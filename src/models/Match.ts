@@ -10,7 +10,10 @@ import {
     BoardState,
     EndReason,
     FinalScores,
+    MatchOutcome,
+    PlayerRank,
     GameStatus,
+    HandicapMode,
     StoneColor,
     LastMove,
     BoardCell,
@@ -29,8 +32,7 @@ const matchSchema = new Schema<MatchDocument>({
     players: [{
         playerId: {
             type: Schema.Types.ObjectId,
-            ref: 'Player',
-            required: true
+            ref: 'Player'
         },
         username: String,
         displayName: String,
@@ -39,6 +41,13 @@ const matchSchema = new Schema<MatchDocument>({
             enum: ['black', 'white'] as StoneColor[],
             required: true
         },
+        rank: {
+            type: String,
+            enum: ['Beginner', 'Intermediate', 'Advanced', 'Expert', 'Master'] as PlayerRank[]
+        },
+        goRank: String,
+        ratingBefore: Number,
+        ratingAfter: Number,
         finalScore: Number,
         capturedStones: Number,
         territory: Number,
@@ -60,9 +69,23 @@ const matchSchema = new Schema<MatchDocument>({
             type: Number,
             default: 0
         },
+        handicapPlacement: {
+            type: String,
+            enum: ['fixed', 'free'],
+            default: 'fixed'
+        },
         komi: {
             type: Number,
             default: 6.5
+        },
+        rated: {
+            type: Boolean,
+            default: true
+        },
+        handicapMode: {
+            type: String,
+            enum: ['manual', 'auto'] as HandicapMode[],
+            default: 'manual'
         }
     },
     gameState: {
@@ -107,9 +130,14 @@ const matchSchema = new Schema<MatchDocument>({
         capturedStones: [{
             x: Number,
             y: Number
-        }]
+        }],
+        pass: { type: Boolean, default: false }
     }],
     result: {
+        outcome: {
+            type: String,
+            enum: ['win', 'draw', 'no-result'] as MatchOutcome[]
+        },
         winner: {
             type: Schema.Types.ObjectId,
             ref: 'Player'
@@ -122,10 +150,42 @@ const matchSchema = new Schema<MatchDocument>({
         margin: Number,
         endReason: {
             type: String,
-            enum: ['resignation', 'timeout', 'normal', 'abandoned'] as EndReason[],
+            enum: ['resignation', 'timeout', 'normal', 'abandoned', 'annulled'] as EndReason[],
             default: 'normal'
         }
     },
+    gameRules: {
+        suicideAllowed: { type: Boolean, default: false },
+        koRule: { type: String, default: 'standard', enum: ['standard', 'superko'] },
+        scoringMethod: { type: String, default: 'area', enum: ['area', 'territory'] }
+    },
+    chat: [{
+        playerId: Schema.Types.ObjectId,
+        username: String,
+        message: String,
+        timestamp: { type: Date, default: Date.now },
+        type: { type: String, enum: ['chat', 'system'], default: 'chat' }
+    }],
+    // Rebuilt on demand by the position endpoint; not returned with the match
+    positionSnapshots: {
+        type: [{
+            _id: false,
+            moveNumber: Number,
+            board: String,
+            capturedStones: {
+                black: Number,
+                white: Number
+            },
+            koPoint: {
+                x: Number,
+                y: Number
+            },
+            currentTurn: String,
+            moveCount: Number,
+            consecutivePasses: Number
+        }],
+        select: false
+    },
     metadata: {
         startTime: { type: Date, default: Date.now },
         endTime: Date,
@@ -133,7 +193,15 @@ const matchSchema = new Schema<MatchDocument>({
         spectators: [{
             type: Schema.Types.ObjectId,
             ref: 'Player'
-        }]
+        }],
+        statsRecorded: { type: Boolean, default: false },
+        importedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        countsForStats: { type: Boolean, default: true },
+        ratedAt: Date,
+        ratingPeriod: Number
     },
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now }
@@ -177,25 +245,28 @@ matchSchema.methods.addMove = function (moveData: GameMove): void {
     };
 };
 
-// Method to end the game
-matchSchema.methods.endGame = function (endReason: EndReason, winnerId: Types.ObjectId, finalScores: FinalScores): void {
+// Method to end the game. Without a winner the game is a draw, or has no result when annulled.
+matchSchema.methods.endGame = function (endReason: EndReason, winnerId: Types.ObjectId | null, finalScores: FinalScores): void {
+    const winner = winnerId
+        ? this.players.find((p: MatchPlayer) => p.playerId?.toString() === winnerId.toString())
+        : undefined;
+    const outcome: MatchOutcome = winnerId ? 'win' : endReason === 'annulled' ? 'no-result' : 'draw';
+
     this.gameState.status = 'completed';
     this.metadata.endTime = new Date();
     this.metadata.duration = this.calculateDuration();
 
     this.result = {
-        winner: winnerId,
-        winnerColor: finalScores.black > finalScores.white ? 'black' : 'white',
+        outcome,
+        winner: winnerId ?? undefined,
+        winnerColor: winner?.color ?? null,
         finalScore: finalScores,
-        margin: Math.abs(finalScores.black - finalScores.white),
+        margin: outcome === 'no-result' ? 0 : Math.abs(finalScores.black - finalScores.white),
         endReason: endReason
     };
 
-    // Update player stats
-    this.players.forEach(player => {
-        if (player.playerId.toString() === winnerId.toString()) {
-            player.finalScore = finalScores[player.color];
-        }
+    this.players.forEach((player: MatchPlayer) => {
+        player.finalScore = finalScores[player.color];
     });
 };
 
@@ -203,5 +274,9 @@ matchSchema.methods.endGame = function (endReason: EndReason, winnerId: Types.Ob
 matchSchema.index({ 'players.playerId': 1, 'metadata.startTime': -1 });
 matchSchema.index({ 'gameState.status': 1 });
 matchSchema.index({ 'metadata.startTime': -1 });
+matchSchema.index({ 'gameSettings.boardSize': 1, 'metadata.startTime': -1 });
+matchSchema.index({ 'metadata.duration': -1 });
+matchSchema.index({ 'result.margin': -1 });
+matchSchema.index({ 'metadata.ratedAt': 1, 'metadata.endTime': 1 });
 
 export const Match = mongoose.model<MatchDocument>('Match', matchSchema);
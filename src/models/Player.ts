@@ -1,13 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { IPlayer, PlayerRank, PlayerStats, PlayerPreferences, GameResult } from '../types';
+import { IPlayer, PlayerRank, PlayerStats, PlayerPreferences, GameResult, StatsCategory, StoneColor } from '../types';
+import { applyGameResult } from '../services/playerStats';
 
 export interface PlayerDocument extends IPlayer, Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
   getWinRate(): number;
-  updateStats(gameResult: GameResult, points: number): void;
+  updateStats(gameResult: GameResult, points: number, category?: StatsCategory): void;
 }
 
+const ratingSchema = new Schema({
+  rating: Number,
+  deviation: Number,
+  volatility: Number
+}, { _id: false });
+
 const playerSchema = new Schema<PlayerDocument>({
   username: {
     type: String,
@@ -44,6 +51,16 @@ const playerSchema = new Schema<PlayerDocument>({
     enum: ['Beginner', 'Intermediate', 'Advanced', 'Expert', 'Master'] as PlayerRank[],
     default: 'Beginner'
   },
+  glicko: {
+    rating: { type: Number, default: 1500 },
+    deviation: { type: Number, default: 350 },
+    volatility: { type: Number, default: 0.06 },
+    ratedGames: { type: Number, default: 0 },
+    lastPeriod: Number,
+    lastPeriodStart: ratingSchema,
+    ladderIndex: Number
+  },
+  goRank: { type: String, default: '?' },
   stats: {
     gamesPlayed: { type: Number, default: 0 },
     gamesWon: { type: Number, default: 0 },
@@ -53,14 +70,31 @@ const playerSchema = new Schema<PlayerDocument>({
     averagePoints: { type: Number, default: 0 },
     winStreak: { type: Number, default: 0 },
     currentStreak: { type: Number, default: 0 },
-    bestWinStreak: { type: Number, default: 0 }
+    currentLossStreak: { type: Number, default: 0 },
+    bestWinStreak: { type: Number, default: 0 },
+    buckets: [{
+      _id: false,
+      boardSize: { type: Number, enum: [9, 13, 19] },
+      timeControl: { type: String, enum: ['None', 'Blitz', 'Rapid', 'Classical'] },
+      color: { type: String, enum: ['black', 'white'] as StoneColor[] },
+      gamesPlayed: { type: Number, default: 0 },
+      gamesWon: { type: Number, default: 0 },
+      gamesLost: { type: Number, default: 0 },
+      gamesDrawn: { type: Number, default: 0 },
+      totalPoints: { type: Number, default: 0 }
+    }]
   },
+  // Latest matches added to `stats`, written in the same update as the stats so that an
+  // interrupted recordMatchStats can be retried without counting a match twice
+  statsMatches: { type: [Schema.Types.ObjectId], default: [], select: false },
   preferences: {
     boardSize: { type: Number, default: 19, enum: [9, 13, 19] },
     timeControl: { type: String, default: 'None', enum: ['None', 'Blitz', 'Rapid', 'Classical'] },
     handicap: { type: Boolean, default: false }
   },
   isOnline: { type: Boolean, default: false },
+  // Granted directly in the database; never set through the API
+  isAdmin: { type: Boolean, default: false },
   lastSeen: { type: Date, default: Date.now },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
@@ -96,24 +130,9 @@ playerSchema.methods.getWinRate = function (): number {
   return Number((this.stats.gamesWon / this.stats.gamesPlayed * 100).toFixed(2));
 };
 
-// Method to update stats after a game
-playerSchema.methods.updateStats = function (gameResult: GameResult, points: number): void {
-  this.stats.gamesPlayed += 1;
-  this.stats.totalPoints += points;
-
-  if (gameResult === 'win') {
-    this.stats.gamesWon += 1;
-    this.stats.currentStreak += 1;
-    this.stats.bestWinStreak = Math.max(this.stats.bestWinStreak, this.stats.currentStreak);
-  } else if (gameResult === 'loss') {
-    this.stats.gamesLost += 1;
-    this.stats.currentStreak = 0;
-  } else {
-    this.stats.gamesDrawn += 1;
-    this.stats.currentStreak = 0;
-  }
-
-  this.stats.averagePoints = this.stats.totalPoints / this.stats.gamesPlayed;
+// Method to update stats after a game; `category` also updates the matching stats bucket
+playerSchema.methods.updateStats = function (gameResult: GameResult, points: number, category?: StatsCategory): void {
+  applyGameResult(this.stats, gameResult, points, category);
 };
 
 // Virtual for win rate
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IRatingHistory } from '../types';
+
+export interface RatingHistoryDocument extends IRatingHistory, Document { }
+
+const ratingHistorySchema = new Schema<RatingHistoryDocument>({
+    playerId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Player',
+        required: true
+    },
+    matchId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Match',
+        required: true
+    },
+    opponentId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Player',
+        required: true
+    },
+    period: { type: Number, required: true },
+    // When the match ended
+    date: { type: Date, required: true },
+    boardSize: {
+        type: Number,
+        enum: [9, 13, 19],
+        required: true
+    },
+    timeControl: {
+        type: String,
+        enum: ['None', 'Blitz', 'Rapid', 'Classical'],
+        required: true
+    },
+    ratingBefore: { type: Number, required: true },
+    rating: { type: Number, required: true },
+    deviation: { type: Number, required: true },
+    volatility: { type: Number, required: true },
+    change: { type: Number, required: true }
+});
+
+// Index for efficient queries
+ratingHistorySchema.index({ playerId: 1, date: 1 });
+ratingHistorySchema.index({ playerId: 1, matchId: 1 }, { unique: true });
+
+export const RatingHistory = mongoose.model<RatingHistoryDocument>('RatingHistory', ratingHistorySchema);
@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IReview, MarkupType, ReviewRole, StoneColor } from '../types';
+
+export interface ReviewDocument extends IReview, Document { }
+
+const MARKUP_TYPES: MarkupType[] = ['triangle', 'square', 'circle', 'cross', 'label', 'territory-black', 'territory-white'];
+
+const markupSchema = new Schema({
+    type: { type: String, enum: MARKUP_TYPES, required: true },
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+    label: String
+}, { _id: false });
+
+const reviewSchema = new Schema<ReviewDocument>({
+    matchId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Match',
+        required: true
+    },
+    owner: {
+        type: Schema.Types.ObjectId,
+        ref: 'Player',
+        required: true
+    },
+    title: {
+        type: String,
+        trim: true,
+        maxlength: 100,
+        default: ''
+    },
+    players: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Player'
+    }],
+    reviewers: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Player'
+    }],
+    notes: [{
+        _id: false,
+        moveNumber: { type: Number, required: true },
+        comment: { type: String, maxlength: 2000, default: '' },
+        markup: [markupSchema],
+        author: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        updatedAt: { type: Date, default: Date.now }
+    }],
+    variations: [{
+        _id: false,
+        nodeId: { type: String, required: true },
+        parentId: { type: String, default: null },
+        moveNumber: { type: Number, required: true },
+        color: {
+            type: String,
+            enum: ['black', 'white'] as StoneColor[],
+            required: true
+        },
+        x: Number,
+        y: Number,
+        pass: { type: Boolean, default: false },
+        comment: { type: String, maxlength: 2000, default: '' },
+        markup: [markupSchema],
+        author: {
+            type: Schema.Types.ObjectId,
+            ref: 'Player'
+        },
+        createdAt: { type: Date, default: Date.now }
+    }],
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+// Update timestamp on save
+reviewSchema.pre('save', function (next) {
+    this.updatedAt = new Date();
+    next();
+});
+
+// Method to find how a player is involved in the review
+reviewSchema.methods.getRole = function (playerId: Types.ObjectId): ReviewRole | null {
+    const id = playerId.toString();
+
+    if (this.owner.toString() === id) return 'owner';
+    if (this.players.some((p: Types.ObjectId) => p.toString() === id)) return 'player';
+    if (this.reviewers.some((r: Types.ObjectId) => r.toString() === id)) return 'reviewer';
+    return null;
+};
+
+// Index for efficient queries
+reviewSchema.index({ matchId: 1, createdAt: -1 });
+reviewSchema.index({ owner: 1 });
+reviewSchema.index({ reviewers: 1 });
+
+export const Review = mongoose.model<ReviewDocument>('Review', reviewSchema);
@@ -0,0 +1,48 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { auth, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { refreshLeaderboards } from '../services/leaderboards';
+import { auditPlayerStats } from '../services/statsAudit';
+
+const router = Router();
+
+// Recompute every player's stats from match history and report mismatches; `fix: true` also corrects them
+router.post('/stats/audit', [
+  body('fix').optional().isBoolean().toBoolean()
+], auth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const report = await auditPlayerStats({ fix: req.body.fix === true });
+
+    res.json({
+      message: report.fixed
+        ? `Stats corrected for ${report.players.length} player(s)`
+        : `Found stats discrepancies for ${report.players.length} player(s)`,
+      data: { report }
+    });
+  } catch (error) {
+    console.error('Stats audit error:', error);
+    res.status(500).json({ error: 'Server error auditing player stats' });
+  }
+});
+
+// Recompute every leaderboard now instead of waiting for the next scheduled refresh
+router.post('/leaderboards/refresh', auth, requireAdmin, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entries = await refreshLeaderboards();
+
+    res.json({
+      message: 'Leaderboards refreshed successfully',
+      data: { entries }
+    });
+  } catch (error) {
+    console.error('Leaderboard refresh error:', error);
+    res.status(500).json({ error: 'Server error refreshing leaderboards' });
+  }
+});
+
+export default router;
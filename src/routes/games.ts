@@ -1,34 +1,92 @@
 import { Router, Request, Response } from 'express';
-import { body, param, query } from 'express-validator';
-import { Game } from '../models/Game';
+import { body, param, query, validationResult } from 'express-validator';
+import { Server as SocketIOServer } from 'socket.io';
+import { Game, GameDocument } from '../models/Game';
 import { Player } from '../models/Player';
 import { auth, AuthenticatedRequest } from '../middleware/auth';
+import { IllegalMoveError } from '../services/goEngine';
+import { GLICKO_DEFAULTS } from '../services/glicko2';
+import { FAIR_KOMI, HANDICAP_KOMI, MAX_HANDICAP } from '../services/handicap';
+import { CLOCK_TYPES, resolveClockSettings, TimeExpiredError } from '../services/gameClock';
+import { completeGame } from '../services/gameCompletion';
+import { cancelTimeout, scheduleTimeout } from '../services/timeoutScheduler';
+import { gameToSgf } from '../services/sgf';
 import { v4 as uuidv4 } from 'uuid';
 import { Types } from 'mongoose';
+import { GamePlayer, HandicapMode } from '../types';
 
 const router = Router();
 
+const isHandicap = (value: unknown): boolean =>
+  Number.isInteger(Number(value)) && Number(value) >= 0 && Number(value) <= MAX_HANDICAP;
+
+// Start the game once both players are ready and no handicap suggestion is waiting for the creator
+const startIfReady = async (game: GameDocument, io?: SocketIOServer): Promise<void> => {
+  if (game.players.length < 2 || !game.players.every(p => p.isReady)) return;
+  if (game.handicapSuggestion?.status === 'pending') return;
+
+  game.startGame();
+  await game.save();
+  scheduleTimeout(game);
+
+  if (io) {
+    io.to(`game-${game.gameId}`).emit('game-started', {
+      gameId: game.gameId,
+      gameState: game.getGameState()
+    });
+  }
+};
+
 // Create a new game
 router.post('/', [
   body('boardSize').isIn([9, 13, 19]),
   body('timeControl').isIn(['None', 'Blitz', 'Rapid', 'Classical']),
   body('timeLimit').optional().isInt({ min: 1, max: 180 }),
-  body('handicap').optional().isInt({ min: 0, max: 9 }),
-  body('komi').optional().isFloat({ min: 0, max: 20 }),
+  body('clockType').optional().isIn(CLOCK_TYPES),
+  body('handicap').optional().custom(value => value === 'auto' || isHandicap(value)),
+  body('handicapPlacement').optional().isIn(['fixed', 'free']),
+  body('komi').optional().custom(value => value === 'auto' || (Number(value) >= 0 && Number(value) <= 20)),
   body('allowUndo').optional().isBoolean(),
-  body('allowResign').optional().isBoolean()
+  body('allowResign').optional().isBoolean(),
+  body('rated').optional().isBoolean(),
+  body('suicideAllowed').optional().isBoolean(),
+  body('koRule').optional().isIn(['standard', 'superko']),
+  body('scoringMethod').optional().isIn(['area', 'territory'])
 ], auth, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const {
       boardSize,
       timeControl,
       timeLimit,
-      handicap = 0,
-      komi = 6.5,
+      clockType = 'absolute',
+      handicap: requestedHandicap,
+      handicapPlacement = 'fixed',
+      komi: requestedKomi,
       allowUndo = false,
-      allowResign = true
+      allowResign = true,
+      rated = true,
+      suicideAllowed = false,
+      koRule = 'standard',
+      scoringMethod = 'territory'
     } = req.body;
 
+    // 'auto' for either handicap or komi lets the server propose both once an opponent joins
+    const handicapMode: HandicapMode = requestedHandicap === 'auto' || requestedKomi === 'auto' ? 'auto' : 'manual';
+    if (handicapMode === 'auto' && [requestedHandicap, requestedKomi].some(value => value !== undefined && value !== 'auto')) {
+      return res.status(400).json({ error: 'Handicap and komi are both chosen automatically in auto mode' });
+    }
+
+    // Auto games stay even until the suggestion is made
+    const handicap = handicapMode === 'auto' ? 0 : Number(requestedHandicap ?? 0);
+    const komi = handicapMode === 'auto' ? FAIR_KOMI : Number(requestedKomi ?? (handicap > 0 ? HANDICAP_KOMI : FAIR_KOMI));
+
+    const clock = resolveClockSettings(timeControl, clockType, timeLimit);
+
     const game = new Game({
       gameId: uuidv4(),
       status: 'waiting',
@@ -37,15 +95,19 @@ router.post('/', [
         boardSize,
         timeControl,
         timeLimit,
+        clock: clock ?? undefined,
         handicap,
+        handicapPlacement,
         komi,
         allowUndo,
-        allowResign
+        allowResign,
+        rated,
+        handicapMode
       },
       gameRules: {
-        suicideAllowed: false,
-        koRule: 'standard',
-        scoringMethod: 'territory'
+        suicideAllowed,
+        koRule,
+        scoringMethod
       },
       metadata: {
         createdBy: req.player._id,
@@ -87,7 +149,7 @@ router.post('/', [
 
 // Get available games
 router.get('/', [
-  query('status').optional().isIn(['waiting', 'active', 'paused']),
+  query('status').optional().isIn(['waiting', 'active', 'paused', 'scoring']),
   query('boardSize').optional().isIn([9, 13, 19]),
   query('timeControl').optional().isIn(['None', 'Blitz', 'Rapid', 'Classical']),
   query('page').optional().isInt({ min: 1 }).toInt(),
@@ -112,7 +174,7 @@ router.get('/', [
         .sort({ 'metadata.lastActivity': -1 })
         .skip(skip)
         .limit(limit)
-        .populate('players.playerId', 'username displayName rank'),
+        .populate('players.playerId', 'username displayName rank goRank'),
       Game.countDocuments(filter)
     ]);
 
@@ -141,7 +203,7 @@ router.get('/:gameId', [
 ], async (req: Request, res: Response) => {
   try {
     const game = await Game.findOne({ gameId: req.params.gameId })
-      .populate('players.playerId', 'username displayName rank');
+      .populate('players.playerId', 'username displayName rank goRank');
 
     if (!game) {
       return res.status(404).json({ error: 'Game not found' });
@@ -157,6 +219,26 @@ router.get('/:gameId', [
   }
 });
 
+// Download the game so far as an SGF file
+router.get('/:gameId/sgf', [
+  param('gameId').notEmpty()
+], async (req: Request, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    res.type('application/x-go-sgf')
+      .attachment(`${game.gameId}.sgf`)
+      .send(gameToSgf(game));
+  } catch (error) {
+    console.error('Game SGF export error:', error);
+    res.status(500).json({ error: 'Server error exporting game' });
+  }
+});
+
 // Join a game
 router.post('/:gameId/join', [
   param('gameId').notEmpty()
@@ -192,6 +274,15 @@ router.post('/:gameId/join', [
       displayName: req.player.displayName
     });
 
+    // In auto mode, propose handicap and komi from both players' ratings
+    if (game.gameSettings.handicapMode === 'auto') {
+      const ids = game.players.map(p => p.playerId);
+      const players = await Player.find({ _id: { $in: ids } }).select('glicko');
+      const ratingOf = (id: Types.ObjectId): number =>
+        players.find(p => p._id.equals(id))?.glicko.rating ?? GLICKO_DEFAULTS.rating;
+      game.suggestHandicap([ratingOf(ids[0] as Types.ObjectId), ratingOf(ids[1] as Types.ObjectId)]);
+    }
+
     await game.save();
 
     // Emit socket event
@@ -205,6 +296,14 @@ router.post('/:gameId/join', [
           displayName: req.player.displayName
         }
       });
+
+      if (game.handicapSuggestion?.status === 'pending') {
+        io.to(`game-${game.gameId}`).emit('handicap-suggested', {
+          gameId: game.gameId,
+          suggestion: game.handicapSuggestion,
+          gameState: game.getGameState()
+        });
+      }
     }
 
     res.json({
@@ -249,18 +348,7 @@ router.post('/:gameId/ready', [
       });
     }
 
-    // Check if both players are ready
-    if (game.players.length === 2 && game.players.every(p => p.isReady)) {
-      game.startGame();
-      await game.save();
-
-      if (io) {
-        io.to(`game-${game.gameId}`).emit('game-started', {
-          gameId: game.gameId,
-          gameState: game.getGameState()
-        });
-      }
-    }
+    await startIfReady(game, io);
 
     res.json({
       message: 'Player ready status updated',
@@ -272,6 +360,112 @@ router.post('/:gameId/ready', [
   }
 });
 
+// Accept the proposed handicap and komi (creator only)
+router.post('/:gameId/handicap/accept', [
+  param('gameId').notEmpty()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.metadata.createdBy.toString() !== req.player._id.toString()) {
+      return res.status(403).json({ error: 'Only the game creator can accept the handicap' });
+    }
+
+    if (game.handicapSuggestion?.status !== 'pending') {
+      return res.status(400).json({ error: 'No handicap suggestion is pending' });
+    }
+
+    game.handicapSuggestion.status = 'accepted';
+    await game.save();
+
+    // Emit socket event
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('handicap-resolved', {
+        gameId: game.gameId,
+        status: 'accepted',
+        gameState: game.getGameState()
+      });
+    }
+
+    await startIfReady(game, io);
+
+    res.json({
+      message: 'Handicap accepted successfully',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Handicap accept error:', error);
+    res.status(500).json({ error: 'Server error accepting handicap' });
+  }
+});
+
+// Override the proposed handicap and komi with the creator's own (creator only)
+router.put('/:gameId/handicap', [
+  param('gameId').notEmpty(),
+  body('handicap').custom(isHandicap),
+  body('komi').isFloat({ min: -20, max: 20 }),
+  body('blackPlayerId').optional().isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.metadata.createdBy.toString() !== req.player._id.toString()) {
+      return res.status(403).json({ error: 'Only the game creator can change the handicap' });
+    }
+
+    if (game.handicapSuggestion?.status !== 'pending') {
+      return res.status(400).json({ error: 'No handicap suggestion is pending' });
+    }
+
+    const black = game.players.find(p => p.color === 'black') as GamePlayer;
+    const blackPlayerId = req.body.blackPlayerId ? new Types.ObjectId(req.body.blackPlayerId) : black.playerId;
+
+    if (!game.players.some(p => p.playerId.equals(blackPlayerId))) {
+      return res.status(400).json({ error: 'Black must be one of the players' });
+    }
+
+    // The result is an ordinary manual handicap game; the suggestion is kept for reference
+    game.setHandicap(Number(req.body.handicap), Number(req.body.komi), blackPlayerId);
+    game.gameSettings.handicapMode = 'manual';
+    game.handicapSuggestion.status = 'overridden';
+    await game.save();
+
+    // Emit socket event
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('handicap-resolved', {
+        gameId: game.gameId,
+        status: 'overridden',
+        gameState: game.getGameState()
+      });
+    }
+
+    await startIfReady(game, io);
+
+    res.json({
+      message: 'Handicap updated successfully',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Handicap override error:', error);
+    res.status(500).json({ error: 'Server error updating handicap' });
+  }
+});
+
 // Make a move
 router.post('/:gameId/move', [
   param('gameId').notEmpty(),
@@ -298,14 +492,26 @@ router.post('/:gameId/move', [
       return res.status(403).json({ error: 'You are not part of this game' });
     }
 
-    // Make the move
-    const moveSuccess = game.makeMove(req.player._id, x, y, player.color);
-    
+    // Make the move; a player whose clock has run out loses on time instead
+    let moveSuccess: boolean;
+    try {
+      moveSuccess = game.makeMove(req.player._id, x, y, player.color);
+    } catch (error) {
+      if (error instanceof TimeExpiredError) {
+        game.handleTimeout(player.color);
+        await game.save();
+        await completeGame(game, req.app.get('io'));
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+
     if (!moveSuccess) {
       return res.status(400).json({ error: 'Invalid move' });
     }
 
     await game.save();
+    scheduleTimeout(game);
 
     // Emit socket event
     const io = req.app.get('io');
@@ -329,6 +535,9 @@ router.post('/:gameId/move', [
       data: { game: game.getGameState() }
     });
   } catch (error) {
+    if (error instanceof IllegalMoveError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
     console.error('Move error:', error);
     res.status(500).json({ error: 'Server error making move' });
   }
@@ -357,14 +566,26 @@ router.post('/:gameId/pass', [
       return res.status(403).json({ error: 'You are not part of this game' });
     }
 
-    // Pass turn
-    const passSuccess = game.passTurn(req.player._id, player.color);
-    
+    // Pass turn; a player whose clock has run out loses on time instead
+    let passSuccess: boolean;
+    try {
+      passSuccess = game.passTurn(req.player._id, player.color);
+    } catch (error) {
+      if (error instanceof TimeExpiredError) {
+        game.handleTimeout(player.color);
+        await game.save();
+        await completeGame(game, req.app.get('io'));
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+
     if (!passSuccess) {
       return res.status(400).json({ error: 'Cannot pass turn' });
     }
 
     await game.save();
+    scheduleTimeout(game);
 
     // Emit socket event
     const io = req.app.get('io');
@@ -376,6 +597,17 @@ router.post('/:gameId/pass', [
         color: player.color,
         gameState: game.getGameState()
       });
+
+      // Two consecutive passes start dead stone marking
+      if (game.boardState.consecutivePasses >= 2) {
+        io.to(`game-${game.gameId}`).emit('scoring-updated', {
+          gameId: game.gameId,
+          action: 'started',
+          scoringState: game.scoringState,
+          score: game.calculateScore(),
+          gameState: game.getGameState()
+        });
+      }
     }
 
     res.json({
@@ -388,6 +620,346 @@ router.post('/:gameId/pass', [
   }
 });
 
+// Get score breakdown (final once completed, provisional while in play or scoring)
+router.get('/:gameId/score', [
+  param('gameId').notEmpty()
+], async (req: Request, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status === 'waiting') {
+      return res.status(400).json({ error: 'Game has not started' });
+    }
+
+    const score = game.status === 'completed' && game.finalScore
+      ? game.finalScore
+      : game.calculateScore();
+
+    res.json({
+      message: 'Score retrieved successfully',
+      data: {
+        score,
+        scoringState: game.status === 'scoring' ? game.scoringState : undefined,
+        final: game.status === 'completed'
+      }
+    });
+  } catch (error) {
+    console.error('Score retrieval error:', error);
+    res.status(500).json({ error: 'Server error retrieving score' });
+  }
+});
+
+// Mark a group as dead (or alive again) during scoring
+router.post('/:gameId/score/toggle', [
+  param('gameId').notEmpty(),
+  body('x').isInt({ min: 0 }),
+  body('y').isInt({ min: 0 })
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { x, y } = req.body;
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status !== 'scoring') {
+      return res.status(400).json({ error: 'Game is not in the scoring phase' });
+    }
+
+    const player = game.players.find(
+      p => p.playerId.toString() === req.player._id.toString()
+    );
+
+    if (!player) {
+      return res.status(403).json({ error: 'You are not part of this game' });
+    }
+
+    if (!game.boardState.board[y]?.[x]?.stone) {
+      return res.status(400).json({ error: 'No stone at that position' });
+    }
+
+    game.toggleDeadGroup(x, y);
+    game.markModified('scoringState');
+    await game.save();
+
+    const score = game.calculateScore();
+
+    // Emit socket event
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('scoring-updated', {
+        gameId: game.gameId,
+        action: 'toggled',
+        playerId: req.player._id,
+        username: req.player.username,
+        scoringState: game.scoringState,
+        score,
+        gameState: game.getGameState()
+      });
+    }
+
+    res.json({
+      message: 'Dead stones updated successfully',
+      data: { scoringState: game.scoringState, score }
+    });
+  } catch (error) {
+    console.error('Dead stone toggle error:', error);
+    res.status(500).json({ error: 'Server error updating dead stones' });
+  }
+});
+
+// Accept the current dead stone marking; the game completes once both players accept
+router.post('/:gameId/score/accept', [
+  param('gameId').notEmpty()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status !== 'scoring') {
+      return res.status(400).json({ error: 'Game is not in the scoring phase' });
+    }
+
+    const player = game.players.find(
+      p => p.playerId.toString() === req.player._id.toString()
+    );
+
+    if (!player) {
+      return res.status(403).json({ error: 'You are not part of this game' });
+    }
+
+    const finalized = game.acceptScore(req.player._id);
+    await game.save();
+
+    // Emit socket events
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('scoring-updated', {
+        gameId: game.gameId,
+        action: 'accepted',
+        playerId: req.player._id,
+        username: req.player.username,
+        scoringState: game.scoringState,
+        score: game.finalScore ?? game.calculateScore(),
+        gameState: game.getGameState()
+      });
+
+    }
+
+    if (finalized) {
+      await completeGame(game, io);
+    }
+
+    res.json({
+      message: finalized ? 'Score accepted, game completed' : 'Score accepted, waiting for opponent',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Score accept error:', error);
+    res.status(500).json({ error: 'Server error accepting score' });
+  }
+});
+
+// Dispute the dead stone marking and return the game to play
+router.post('/:gameId/score/reject', [
+  param('gameId').notEmpty()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status !== 'scoring') {
+      return res.status(400).json({ error: 'Game is not in the scoring phase' });
+    }
+
+    const player = game.players.find(
+      p => p.playerId.toString() === req.player._id.toString()
+    );
+
+    if (!player) {
+      return res.status(403).json({ error: 'You are not part of this game' });
+    }
+
+    game.resumePlay();
+    await game.save();
+    scheduleTimeout(game);
+
+    // Emit socket event
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('scoring-updated', {
+        gameId: game.gameId,
+        action: 'resumed',
+        playerId: req.player._id,
+        username: req.player.username,
+        gameState: game.getGameState()
+      });
+    }
+
+    res.json({
+      message: 'Scoring disputed, game resumed',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Score reject error:', error);
+    res.status(500).json({ error: 'Server error resuming game' });
+  }
+});
+
+// Request to take back your last move
+router.post('/:gameId/undo', [
+  param('gameId').notEmpty()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (!game.gameSettings.allowUndo) {
+      return res.status(403).json({ error: 'Undo is not allowed in this game' });
+    }
+
+    if (game.status !== 'active') {
+      return res.status(400).json({ error: 'Game is not active' });
+    }
+
+    const player = game.players.find(
+      p => p.playerId.toString() === req.player._id.toString()
+    );
+
+    if (!player) {
+      return res.status(403).json({ error: 'You are not part of this game' });
+    }
+
+    if (game.undoRequest?.requestedBy) {
+      return res.status(400).json({ error: 'An undo request is already pending' });
+    }
+
+    const lastEntry = game.boardState.moveHistory[game.boardState.moveHistory.length - 1];
+    if (!lastEntry || lastEntry.playerId.toString() !== req.player._id.toString()) {
+      return res.status(400).json({ error: 'You can only take back your own last move' });
+    }
+
+    game.requestUndo(req.player._id);
+    await game.save();
+
+    // Emit socket event
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('undo-requested', {
+        gameId: game.gameId,
+        playerId: req.player._id,
+        username: req.player.username,
+        moveNumber: game.boardState.moveHistory.length
+      });
+    }
+
+    res.json({
+      message: 'Undo requested successfully',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Undo request error:', error);
+    res.status(500).json({ error: 'Server error requesting undo' });
+  }
+});
+
+// Accept or decline the opponent's pending undo request
+const resolveUndo = (accepted: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const game = await Game.findOne({ gameId: req.params.gameId });
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    const player = game.players.find(
+      p => p.playerId.toString() === req.player._id.toString()
+    );
+
+    if (!player) {
+      return res.status(403).json({ error: 'You are not part of this game' });
+    }
+
+    if (!game.undoRequest?.requestedBy) {
+      return res.status(400).json({ error: 'No undo request is pending' });
+    }
+
+    if (game.undoRequest.requestedBy.toString() === req.player._id.toString()) {
+      return res.status(400).json({ error: 'You cannot answer your own undo request' });
+    }
+
+    if (accepted) {
+      // The player on move may have run out of time while the request was pending
+      const onMove = game.boardState.currentTurn;
+      try {
+        game.undoLastMove();
+      } catch (error) {
+        if (error instanceof TimeExpiredError) {
+          game.handleTimeout(onMove);
+          await game.save();
+          await completeGame(game, req.app.get('io'));
+          return res.status(400).json({ error: error.message, code: error.code });
+        }
+        throw error;
+      }
+    } else {
+      game.undoRequest = null;
+    }
+
+    await game.save();
+    scheduleTimeout(game);
+
+    // Emit socket events
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`game-${game.gameId}`).emit('undo-resolved', {
+        gameId: game.gameId,
+        accepted,
+        playerId: req.player._id,
+        username: req.player.username,
+        gameState: game.getGameState()
+      });
+
+      if (accepted) {
+        io.to(`game-${game.gameId}`).emit('chat-message', {
+          gameId: game.gameId,
+          message: game.chat[game.chat.length - 1]
+        });
+      }
+    }
+
+    res.json({
+      message: accepted ? 'Undo accepted successfully' : 'Undo declined successfully',
+      data: { game: game.getGameState() }
+    });
+  } catch (error) {
+    console.error('Undo resolution error:', error);
+    res.status(500).json({ error: 'Server error resolving undo request' });
+  }
+};
+
+router.post('/:gameId/undo/accept', [
+  param('gameId').notEmpty()
+], auth, resolveUndo(true));
+
+router.post('/:gameId/undo/decline', [
+  param('gameId').notEmpty()
+], auth, resolveUndo(false));
+
 // Send chat message
 router.post('/:gameId/chat', [
   param('gameId').notEmpty(),
@@ -456,10 +1028,14 @@ router.post('/:gameId/resign', [
       return res.status(404).json({ error: 'Game not found' });
     }
 
-    if (game.status !== 'active') {
+    if (game.status !== 'active' && game.status !== 'scoring') {
       return res.status(400).json({ error: 'Game is not active' });
     }
 
+    if (!game.gameSettings.allowResign) {
+      return res.status(403).json({ error: 'Resignation is not allowed in this game' });
+    }
+
     const player = game.players.find(
       p => p.playerId.toString() === req.player._id.toString()
     );
@@ -468,30 +1044,10 @@ router.post('/:gameId/resign', [
       return res.status(403).json({ error: 'You are not part of this game' });
     }
 
-    // End game due to resignation
-    game.status = 'completed';
-    game.metadata.lastActivity = new Date();
-
-    // Find winner (other player)
-    const winner = game.players.find(
-      p => p.playerId.toString() !== req.player._id.toString()
-    );
-
+    // End game due to resignation and hand it to the completion pipeline
+    game.resign(req.player._id);
     await game.save();
-
-    // Emit socket event
-    const io = req.app.get('io');
-    if (io) {
-      io.to(`game-${game.gameId}`).emit('game-ended', {
-        gameId: game.gameId,
-        reason: 'resignation',
-        winner: winner ? {
-          playerId: winner.playerId,
-          username: winner.username,
-          color: winner.color
-        } : undefined
-      });
-    }
+    await completeGame(game, req.app.get('io'));
 
     res.json({
       message: 'Game resigned successfully',
@@ -516,13 +1072,14 @@ router.delete('/:gameId', [
 
     // Check if player is creator or admin
     const isCreator = game.metadata.createdBy.toString() === req.player._id.toString();
-    const isAdmin = req.player.rank === 'Master';
+    const isAdmin = req.player.isAdmin;
 
     if (!isCreator && !isAdmin) {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
     await Game.findByIdAndDelete(game._id);
+    cancelTimeout(game.gameId);
 
     // Emit socket event
     const io = req.app.get('io');
@@ -1,76 +1,148 @@
-import { Router, Request, Response } from 'express';
-import { query, param, body } from 'express-validator';
+import { Router, Request, Response, text } from 'express';
+import { query, param, body, matchedData, validationResult } from 'express-validator';
 import { Match } from '../models/Match';
-import { Player } from '../models/Player';
-import { auth, AuthenticatedRequest } from '../middleware/auth';
+import { auth, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { matchToSgf, SgfError } from '../services/sgf';
+import { importSgf } from '../services/sgfImport';
+import { recordMatchStats } from '../services/gameCompletion';
+import { getPositionAtMove } from '../services/matchPositions';
+import { IllegalMoveError } from '../services/goEngine';
+import {
+  buildMatchFilter,
+  encodeCursor,
+  InvalidCursorError,
+  MATCH_SORT_FIELDS,
+  MatchSearchOptions,
+  MatchSortKey,
+  paginateMatches,
+  PLAYER_RANKS
+} from '../services/matchSearch';
+import {
+  ACTIVITY_INTERVALS,
+  getActivity,
+  getColorWinRates,
+  getEndReasonBreakdown,
+  getGameLengthDistribution,
+  getPeakConcurrency
+} from '../services/matchAnalytics';
+import { ActivityInterval, AnalyticsFilter, GameLengthMeasure } from '../types';
 import { Types } from 'mongoose';
 
 const router = Router();
 
-// Get all matches with filtering and pagination
+// Search matches with filtering, sorting and cursor pagination
 router.get('/', [
-  query('page').optional().isInt({ min: 1 }).toInt(),
   query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  query('cursor').optional().isString(),
+  query('sort').optional().isIn(Object.keys(MATCH_SORT_FIELDS)),
+  query('order').optional().isIn(['asc', 'desc']),
   query('status').optional().isIn(['active', 'completed', 'abandoned', 'resigned']),
   query('playerId').optional().isMongoId(),
+  query('opponentId').optional().isMongoId(),
+  query('boardSize').optional().isIn(['9', '13', '19']).toInt(),
+  query('timeControl').optional().isIn(['None', 'Blitz', 'Rapid', 'Classical']),
+  query('handicap').optional().isInt({ min: 0, max: 9 }).toInt(),
+  query('endReason').optional().isIn(['resignation', 'timeout', 'normal', 'abandoned', 'annulled']),
+  query('winnerColor').optional().isIn(['black', 'white']),
+  query('minMoves').optional().isInt({ min: 0 }).toInt(),
+  query('maxMoves').optional().isInt({ min: 0 }).toInt(),
+  query('minRank').optional().isIn(PLAYER_RANKS),
+  query('maxRank').optional().isIn(PLAYER_RANKS),
+  query('minRating').optional().isFloat().toFloat(),
+  query('maxRating').optional().isFloat().toFloat(),
   query('startDate').optional().isISO8601(),
   query('endDate').optional().isISO8601()
 ], async (req: Request, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const status = req.query.status as string;
-    const playerId = req.query.playerId as string;
-    const startDate = req.query.startDate as string;
-    const endDate = req.query.endDate as string;
-
-    const skip = (page - 1) * limit;
-    const filter: any = {};
-
-    // Apply filters
-    if (status) filter['gameState.status'] = status;
-    if (playerId) filter['players.playerId'] = new Types.ObjectId(playerId);
-    if (startDate || endDate) {
-      filter['metadata.startTime'] = {};
-      if (startDate) filter['metadata.startTime'].$gte = new Date(startDate);
-      if (endDate) filter['metadata.startTime'].$lte = new Date(endDate);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    const [matches, total] = await Promise.all([
-      Match.find(filter)
-        .sort({ 'metadata.startTime': -1 })
-        .skip(skip)
-        .limit(limit)
-        .populate('players.playerId', 'username displayName'),
-      Match.countDocuments(filter)
-    ]);
+    const options = matchedData(req, { locations: ['query'] });
+    const limit = options['limit'] || 20;
+    const sort: MatchSortKey = options['sort'] || 'date';
+    const order = options['order'] || 'desc';
+
+    if (options['opponentId'] && !options['playerId']) {
+      return res.status(400).json({ error: 'opponentId requires playerId' });
+    }
+
+    const page = paginateMatches(buildMatchFilter(options as MatchSearchOptions), sort, order, options['cursor']);
 
-    const totalPages = Math.ceil(total / limit);
+    // One extra document tells us whether there is another page
+    const found = await Match.find(page.filter)
+      .sort(page.sort)
+      .limit(limit + 1)
+      .populate('players.playerId', 'username displayName');
+
+    const matches = found.slice(0, limit);
+    const hasNext = found.length > limit;
+    const last = matches[matches.length - 1];
 
     res.json({
       message: 'Matches retrieved successfully',
       data: matches,
       pagination: {
-        currentPage: page,
-        totalPages,
-        totalItems: total,
-        hasNext: page < totalPages,
-        hasPrev: page > 1
+        limit,
+        sort,
+        order,
+        hasNext,
+        nextCursor: hasNext && last ? encodeCursor(last, sort) : null
       }
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Matches retrieval error:', error);
     res.status(500).json({ error: 'Server error retrieving matches' });
   }
 });
 
+// Import a game from an SGF file, sent as the raw request body or as JSON { sgf }
+router.post('/import', auth, text({ type: ['text/plain', 'application/x-go-sgf'], limit: '1mb' }), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sgf = typeof req.body === 'string' ? req.body : req.body?.sgf;
+
+    if (typeof sgf !== 'string' || !sgf.trim()) {
+      return res.status(400).json({ error: 'SGF content is required' });
+    }
+
+    const { match, created } = await importSgf(sgf, req.player._id, req.player.isAdmin);
+
+    if (!created) {
+      return res.status(409).json({
+        error: 'This game has already been imported',
+        data: { matchId: match._id }
+      });
+    }
+
+    res.status(201).json({
+      message: 'Match imported successfully',
+      data: { match }
+    });
+  } catch (error) {
+    if (error instanceof SgfError) {
+      return res.status(400).json({
+        error: error.message,
+        code: error.code,
+        line: error.line,
+        column: error.column
+      });
+    }
+    console.error('Match import error:', error);
+    res.status(500).json({ error: 'Server error importing match' });
+  }
+});
+
 // Get match by ID
 router.get('/:id', [
   param('id').isMongoId()
 ], async (req: Request, res: Response) => {
   try {
     const match = await Match.findById(req.params.id)
-      .populate('players.playerId', 'username displayName rank');
+      .populate('players.playerId', 'username displayName rank goRank');
 
     if (!match) {
       return res.status(404).json({ error: 'Match not found' });
@@ -111,15 +183,73 @@ router.get('/:id/moves', [
   }
 });
 
-// End a match
+// Get the board position after a given move (defaults to the final position)
+router.get('/:id/position', [
+  param('id').isMongoId(),
+  query('move').optional().isInt({ min: 0 }).toInt()
+], async (req: Request, res: Response) => {
+  try {
+    const match = await Match.findById(req.params.id).select('+positionSnapshots');
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+
+    const move = req.query.move === undefined ? match.moves.length : Number(req.query.move);
+
+    if (!Number.isInteger(move) || move < 0 || move > match.moves.length) {
+      return res.status(400).json({ error: `Move must be between 0 and ${match.moves.length}` });
+    }
+
+    const position = await getPositionAtMove(match, move);
+
+    res.json({
+      message: 'Match position retrieved successfully',
+      data: { position }
+    });
+  } catch (error) {
+    if (error instanceof IllegalMoveError) {
+      return res.status(422).json({ error: `Match moves cannot be replayed: ${error.message}`, code: error.code });
+    }
+    console.error('Match position error:', error);
+    res.status(500).json({ error: 'Server error retrieving match position' });
+  }
+});
+
+// Download a match as an SGF file
+router.get('/:id/sgf', [
+  param('id').isMongoId()
+], async (req: Request, res: Response) => {
+  try {
+    const match = await Match.findById(req.params.id);
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+
+    res.type('application/x-go-sgf')
+      .attachment(`${match.matchId}.sgf`)
+      .send(matchToSgf(match));
+  } catch (error) {
+    console.error('Match SGF export error:', error);
+    res.status(500).json({ error: 'Server error exporting match' });
+  }
+});
+
+// End a match (omit winnerId for a draw, or use endReason 'annulled' for no result)
 router.post('/:id/end', [
   param('id').isMongoId(),
-  body('winnerId').isMongoId(),
-  body('endReason').isIn(['resignation', 'timeout', 'normal', 'abandoned']),
+  body('winnerId').optional({ nullable: true }).isMongoId(),
+  body('endReason').isIn(['resignation', 'timeout', 'normal', 'abandoned', 'annulled']),
   body('finalScores.black').isNumeric(),
   body('finalScores.white').isNumeric()
 ], auth, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const match = await Match.findById(req.params.id);
     
     if (!match) {
@@ -128,7 +258,7 @@ router.post('/:id/end', [
 
     // Check if current player is part of the match
     const isPlayerInMatch = match.players.some(
-      player => player.playerId.toString() === req.player._id.toString()
+      player => player.playerId?.toString() === req.player._id.toString()
     );
     
     if (!isPlayerInMatch) {
@@ -137,25 +267,47 @@ router.post('/:id/end', [
 
     const { winnerId, endReason, finalScores } = req.body;
 
-    // End the game
-    match.endGame(endReason, new Types.ObjectId(winnerId), finalScores);
-    await match.save();
+    if (winnerId && endReason === 'annulled') {
+      return res.status(400).json({ error: 'An annulled match has no winner' });
+    }
+    if (winnerId && !match.players.some(p => p.playerId?.toString() === winnerId)) {
+      return res.status(400).json({ error: 'Winner is not part of this match' });
+    }
+
+    // Ending is one-shot: refuse matches that already have a result. Every match carries a
+    // default endReason, so only the status and the recorded outcome say whether it has ended.
+    if (match.gameState.status === 'completed' || match.result?.outcome) {
+      return res.status(409).json({ error: 'Match has already ended' });
+    }
 
-    // Update player stats
-    const winner = await Player.findById(winnerId);
-    const loser = await Player.findById(
-      match.players.find(p => p.playerId.toString() !== winnerId)?.playerId
+    // Build and validate the result first, then write status and result in one update that only
+    // applies while the match is still open, so two concurrent requests cannot both end it and a
+    // rejected result never leaves the match completed without one
+    match.endGame(endReason, winnerId ? new Types.ObjectId(winnerId) : null, {
+      black: Number(finalScores.black),
+      white: Number(finalScores.white)
+    });
+    await match.validate();
+
+    const ended = await Match.updateOne(
+      { _id: match._id, 'gameState.status': { $ne: 'completed' }, 'result.outcome': { $exists: false } },
+      {
+        $set: {
+          'gameState.status': match.gameState.status,
+          'metadata.endTime': match.metadata.endTime,
+          'metadata.duration': match.metadata.duration,
+          result: match.result,
+          players: match.players
+        }
+      }
     );
 
-    if (winner) {
-      winner.updateStats('win', finalScores[winner.color] || 0);
-      await winner.save();
+    if (ended.modifiedCount === 0) {
+      return res.status(409).json({ error: 'Match has already ended' });
     }
 
-    if (loser) {
-      loser.updateStats('loss', finalScores[loser.color] || 0);
-      await loser.save();
-    }
+    // Update player stats (draws included; annulled matches count for nobody)
+    await recordMatchStats(match);
 
     res.json({
       message: 'Match ended successfully',
@@ -196,6 +348,130 @@ router.get('/statistics/overview', async (req: Request, res: Response) => {
   }
 });
 
+// Filters shared by the analytics endpoints
+const analyticsFilters = [
+  query('startDate').optional().isISO8601().toDate(),
+  query('endDate').optional().isISO8601().toDate(),
+  query('boardSize').optional().isIn([9, 13, 19]).toInt()
+];
+
+const analyticsFilterFrom = (req: Request): AnalyticsFilter => {
+  const { startDate, endDate, boardSize } = matchedData(req, { locations: ['query'] });
+  const filter: AnalyticsFilter = {};
+  if (startDate) filter.startDate = startDate;
+  if (endDate) filter.endDate = endDate;
+  if (boardSize) filter.boardSize = boardSize;
+  return filter;
+};
+
+// Get the number of matches started per day, week or month
+router.get('/statistics/activity', [
+  ...analyticsFilters,
+  query('interval').optional().isIn(ACTIVITY_INTERVALS)
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const interval = (req.query['interval'] as ActivityInterval | undefined) || 'day';
+    const activity = await getActivity(analyticsFilterFrom(req), interval);
+
+    res.json({
+      message: 'Match activity retrieved successfully',
+      data: { interval, activity }
+    });
+  } catch (error) {
+    console.error('Match activity error:', error);
+    res.status(500).json({ error: 'Server error retrieving match activity' });
+  }
+});
+
+// Get the highest number of matches played at the same time
+router.get('/statistics/concurrency', analyticsFilters, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const concurrency = await getPeakConcurrency(analyticsFilterFrom(req));
+
+    res.json({
+      message: 'Match concurrency retrieved successfully',
+      data: concurrency
+    });
+  } catch (error) {
+    console.error('Match concurrency error:', error);
+    res.status(500).json({ error: 'Server error retrieving match concurrency' });
+  }
+});
+
+// Get the distribution of game lengths, in moves or in minutes
+router.get('/statistics/lengths', [
+  ...analyticsFilters,
+  query('by').optional().isIn(['moves', 'duration'])
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const by = (req.query['by'] as GameLengthMeasure | undefined) || 'moves';
+    const distribution = await getGameLengthDistribution(analyticsFilterFrom(req), by);
+
+    res.json({
+      message: 'Game length distribution retrieved successfully',
+      data: { by, distribution }
+    });
+  } catch (error) {
+    console.error('Game length distribution error:', error);
+    res.status(500).json({ error: 'Server error retrieving game length distribution' });
+  }
+});
+
+// Get black and white win rates for each board size
+router.get('/statistics/colors', analyticsFilters, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const colors = await getColorWinRates(analyticsFilterFrom(req));
+
+    res.json({
+      message: 'Color win rates retrieved successfully',
+      data: { colors }
+    });
+  } catch (error) {
+    console.error('Color win rate error:', error);
+    res.status(500).json({ error: 'Server error retrieving color win rates' });
+  }
+});
+
+// Get how matches ended: resignation, timeout, counting and so on
+router.get('/statistics/endings', analyticsFilters, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const endings = await getEndReasonBreakdown(analyticsFilterFrom(req));
+
+    res.json({
+      message: 'Match endings retrieved successfully',
+      data: { endings }
+    });
+  } catch (error) {
+    console.error('Match endings error:', error);
+    res.status(500).json({ error: 'Server error retrieving match endings' });
+  }
+});
+
 // Get player match statistics
 router.get('/statistics/player/:playerId', [
   param('playerId').isMongoId()
@@ -203,25 +479,25 @@ router.get('/statistics/player/:playerId', [
   try {
     const playerId = new Types.ObjectId(req.params.playerId);
 
-    const [totalMatches, wins, losses, draws] = await Promise.all([
+    const completed = { 'players.playerId': playerId, 'gameState.status': 'completed' };
+
+    const [totalMatches, wins, losses, draws, noResults] = await Promise.all([
       Match.countDocuments({ 'players.playerId': playerId }),
       Match.countDocuments({ 
         'players.playerId': playerId, 
         'result.winner': playerId 
       }),
-      Match.countDocuments({ 
-        'players.playerId': playerId, 
+      // Older records have no outcome; a winner other than this player means a loss
+      Match.countDocuments({
+        ...completed,
         'result.winner': { $ne: playerId },
-        'gameState.status': 'completed'
-      }),
-      Match.countDocuments({ 
-        'players.playerId': playerId, 
-        'gameState.status': 'completed',
-        $and: [
-          { 'result.winner': { $ne: playerId } },
-          { 'result.winner': { $exists: false } }
+        $or: [
+          { 'result.outcome': 'win' },
+          { 'result.outcome': { $exists: false }, 'result.winner': { $nin: [null, playerId] } }
         ]
-      })
+      }),
+      Match.countDocuments({ ...completed, 'result.outcome': 'draw' }),
+      Match.countDocuments({ ...completed, 'result.outcome': 'no-result' })
     ]);
 
     const winRate = totalMatches > 0 ? (wins / totalMatches) * 100 : 0;
@@ -233,6 +509,7 @@ router.get('/statistics/player/:playerId', [
         wins,
         losses,
         draws,
+        noResults,
         winRate: Math.round(winRate * 100) / 100
       }
     });
@@ -245,13 +522,8 @@ router.get('/statistics/player/:playerId', [
 // Delete a match (admin only)
 router.delete('/:id', [
   param('id').isMongoId()
-], auth, async (req: AuthenticatedRequest, res: Response) => {
+], auth, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Check if current user is admin
-    if (req.player.rank !== 'Master') {
-      return res.status(403).json({ error: 'Insufficient permissions' });
-    }
-
     const match = await Match.findByIdAndDelete(req.params.id);
     
     if (!match) {
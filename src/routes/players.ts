@@ -1,8 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { query, param } from 'express-validator';
+import { query, param, validationResult, matchedData } from 'express-validator';
 import { Player } from '../models/Player';
-import { Match } from '../models/Match';
-import { auth, AuthenticatedRequest } from '../middleware/auth';
+import { Match, MatchDocument } from '../models/Match';
+import { auth, optionalAuth, AuthenticatedRequest, OptionalAuthRequest } from '../middleware/auth';
+import { summarizeHeadToHead } from '../services/headToHead';
+import { getLeaderboard, isMetricAvailable, LEADERBOARD_METRICS, LEADERBOARD_PERIODS } from '../services/leaderboards';
+import { getColorSplit, getStatsSlice, StatsFilter } from '../services/playerStats';
+import { getRatingHistory, parseRatingCategory, RatingCategory, RatingHistoryOptions } from '../services/ratingHistory';
+import { FilterQuery, Types } from 'mongoose';
+import { LeaderboardFilter } from '../types';
 
 const router = Router();
 
@@ -44,7 +50,7 @@ router.get('/', [
         sortObj.username = 1;
         break;
       case 'rank':
-        sortObj.rank = 1;
+        sortObj['glicko.rating'] = -1;
         break;
       case 'stats.gamesPlayed':
         sortObj['stats.gamesPlayed'] = -1;
@@ -87,55 +93,45 @@ router.get('/', [
   }
 });
 
-// Get leaderboard
+// Get a precomputed leaderboard; signed-in players also get their own entry
 router.get('/leaderboard', [
-  query('type').optional().isIn(['wins', 'winRate', 'points', 'streak']),
+  query('type').optional().isIn(LEADERBOARD_METRICS),
+  query('period').optional().isIn(LEADERBOARD_PERIODS),
+  query('boardSize').optional().isIn([9, 13, 19]).toInt(),
+  query('timeControl').optional().isIn(['None', 'Blitz', 'Rapid', 'Classical']),
+  query('page').optional().isInt({ min: 1 }).toInt(),
   query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
-], async (req: Request, res: Response) => {
+], optionalAuth, async (req: OptionalAuthRequest, res: Response) => {
   try {
-    const type = req.query.type as string || 'wins';
-    const limit = parseInt(req.query.limit as string) || 10;
-
-    let sortObj: any = {};
-    switch (type) {
-      case 'wins':
-        sortObj['stats.gamesWon'] = -1;
-        break;
-      case 'winRate':
-        sortObj['stats.gamesPlayed'] = 1;
-        break;
-      case 'points':
-        sortObj['stats.totalPoints'] = -1;
-        break;
-      case 'streak':
-        sortObj['stats.bestWinStreak'] = -1;
-        break;
-      default:
-        sortObj['stats.gamesWon'] = -1;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    const players = await Player.find({ 'stats.gamesPlayed': { $gt: 0 } })
-      .select('-password')
-      .sort(sortObj)
-      .limit(limit);
-
-    // Calculate win rate for winRate leaderboard
-    if (type === 'winRate') {
-      players.sort((a, b) => {
-        const aWinRate = a.getWinRate();
-        const bWinRate = b.getWinRate();
-        return bWinRate - aWinRate;
-      });
+    const { type = 'wins', period = 'all-time', boardSize, timeControl, page = 1, limit = 10 } = matchedData(req, { locations: ['query'] });
+    const filter: LeaderboardFilter = { metric: type, period };
+    if (boardSize) filter.boardSize = boardSize;
+    if (timeControl) filter.timeControl = timeControl;
+
+    if (!isMetricAvailable(filter.metric, filter.boardSize ?? null, filter.timeControl ?? null)) {
+      return res.status(400).json({ error: 'Rating leaderboards cannot be filtered by board size or time control' });
     }
 
+    const options: { page: number; limit: number; playerId?: Types.ObjectId } = { page, limit };
+    if (req.player) options.playerId = req.player._id as Types.ObjectId;
+
+    const leaderboard = await getLeaderboard(filter, options);
+    const totalPages = Math.ceil(leaderboard.total / limit);
+
     res.json({
       message: 'Leaderboard retrieved successfully',
-      data: {
-        type,
-        players: players.map(player => ({
-          ...player.toObject(),
-          winRate: player.getWinRate()
-        }))
+      data: leaderboard,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: leaderboard.total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
       }
     });
   } catch (error) {
@@ -165,21 +161,35 @@ router.get('/:id', [
   }
 });
 
-// Get player statistics
+// Get player statistics, optionally narrowed to a board size, time control and/or color
 router.get('/:id/stats', [
-  param('id').isMongoId()
+  param('id').isMongoId(),
+  query('boardSize').optional().isIn([9, 13, 19]).toInt(),
+  query('timeControl').optional().isIn(['None', 'Blitz', 'Rapid', 'Classical']),
+  query('color').optional().isIn(['black', 'white'])
 ], async (req: Request, res: Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const player = await Player.findById(req.params.id).select('-password');
     
     if (!player) {
       return res.status(404).json({ error: 'Player not found' });
     }
 
-    // Get recent matches
-    const recentMatches = await Match.find({
-      'players.playerId': player._id
-    })
+    const filter = matchedData(req, { locations: ['query'] }) as StatsFilter;
+
+    // Get recent matches in the same slice
+    const matchFilter: FilterQuery<MatchDocument> = filter.color
+      ? { players: { $elemMatch: { playerId: player._id, color: filter.color } } }
+      : { 'players.playerId': player._id };
+    if (filter.boardSize) matchFilter['gameSettings.boardSize'] = filter.boardSize;
+    if (filter.timeControl) matchFilter['gameSettings.timeControl'] = filter.timeControl;
+
+    const recentMatches = await Match.find(matchFilter)
     .sort({ 'metadata.startTime': -1 })
     .limit(10)
     .populate('players.playerId', 'username displayName');
@@ -187,6 +197,8 @@ router.get('/:id/stats', [
     const stats = {
       ...player.stats,
       winRate: player.getWinRate(),
+      slice: getStatsSlice(player.stats, filter),
+      byColor: getColorSplit(player.stats, filter),
       recentMatches
     };
 
@@ -243,34 +255,86 @@ router.get('/:id/matches', [
   }
 });
 
-// Update player rank (admin only)
-router.put('/:id/rank', [
+// Get the head-to-head record between two players
+router.get('/:id/versus/:opponentId', [
   param('id').isMongoId(),
-  query('rank').isIn(['Beginner', 'Intermediate', 'Advanced', 'Expert', 'Master'])
-], auth, async (req: AuthenticatedRequest, res: Response) => {
+  param('opponentId').isMongoId(),
+  query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+], async (req: Request, res: Response) => {
   try {
-    // Check if current user is admin (you can add admin role logic here)
-    if (req.player.rank !== 'Master') {
-      return res.status(403).json({ error: 'Insufficient permissions' });
+    if (req.params.id === req.params.opponentId) {
+      return res.status(400).json({ error: 'A player has no record against themselves' });
     }
 
-    const player = await Player.findByIdAndUpdate(
-      req.params.id,
-      { rank: req.query.rank },
-      { new: true }
-    ).select('-password');
+    const [player, opponent] = await Promise.all([
+      Player.findById(req.params.id).select('username displayName rank goRank'),
+      Player.findById(req.params.opponentId).select('username displayName rank goRank')
+    ]);
+
+    if (!player || !opponent) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 10;
+    const matches = await Match.find({
+      'players.playerId': { $all: [player._id, opponent._id] },
+      'gameState.status': 'completed'
+    })
+    .select('players gameSettings result metadata.startTime')
+    .sort({ 'metadata.startTime': 1 });
+
+    const summary = summarizeHeadToHead(
+      player._id as Types.ObjectId,
+      opponent._id as Types.ObjectId,
+      matches,
+      limit
+    );
+
+    res.json({
+      message: 'Head-to-head record retrieved successfully',
+      data: { player, opponent, summary }
+    });
+  } catch (error) {
+    console.error('Head-to-head error:', error);
+    res.status(500).json({ error: 'Server error retrieving head-to-head record' });
+  }
+});
+
+// Get a player's rating after each rated match, for plotting
+router.get('/:id/rating-history', [
+  param('id').isMongoId(),
+  query('from').optional().isISO8601().toDate(),
+  query('to').optional().isISO8601().toDate(),
+  query('category').optional().custom(value => parseRatingCategory(String(value)) !== null)
+    .withMessage('category must be a board size, a time control or both, e.g. 19-Rapid')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const player = await Player.findById(req.params.id).select('username displayName rank goRank glicko');
 
     if (!player) {
       return res.status(404).json({ error: 'Player not found' });
     }
 
+    const { from, to, category } = matchedData(req, { locations: ['query'] });
+    const options: RatingHistoryOptions = {};
+    if (from) options.from = from;
+    if (to) options.to = to;
+    if (category) options.category = parseRatingCategory(category) as RatingCategory;
+
+    const history = await getRatingHistory(player._id as Types.ObjectId, options);
+
     res.json({
-      message: 'Player rank updated successfully',
-      data: { player }
+      message: 'Rating history retrieved successfully',
+      data: { player, history }
     });
   } catch (error) {
-    console.error('Player rank update error:', error);
-    res.status(500).json({ error: 'Server error updating player rank' });
+    console.error('Rating history error:', error);
+    res.status(500).json({ error: 'Server error retrieving rating history' });
   }
 });
 
@@ -278,7 +342,7 @@ router.put('/:id/rank', [
 router.get('/online/status', async (req: Request, res: Response) => {
   try {
     const onlinePlayers = await Player.find({ isOnline: true })
-      .select('username displayName rank lastSeen')
+      .select('username displayName rank goRank lastSeen')
       .sort({ lastSeen: -1 });
 
     res.json({
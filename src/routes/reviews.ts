@@ -0,0 +1,471 @@
+import { Router, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { Match } from '../models/Match';
+import { Player } from '../models/Player';
+import { Review, ReviewDocument } from '../models/Review';
+import { auth, AuthenticatedRequest } from '../middleware/auth';
+import { IllegalMoveError } from '../services/goEngine';
+import { SgfError } from '../services/sgf';
+import { createVariationNode, reviewFromSgf, reviewToSgf, subtreeIds } from '../services/reviewTree';
+import { BoardMarkup, ReviewRole } from '../types';
+
+const router = Router();
+
+const MARKUP_TYPES = ['triangle', 'square', 'circle', 'cross', 'label', 'territory-black', 'territory-white'];
+
+const markupValidators = [
+  body('markup').optional().isArray({ max: 361 }),
+  body('markup.*.type').isIn(MARKUP_TYPES),
+  body('markup.*.x').isInt({ min: 0, max: 18 }).toInt(),
+  body('markup.*.y').isInt({ min: 0, max: 18 }).toInt(),
+  body('markup.*.label').optional().isString().isLength({ max: 10 })
+];
+
+// Plain markup list from the request body, or null if any mark lies off the board
+const readMarkup = (markup: BoardMarkup[] | undefined, boardSize: number): BoardMarkup[] | null => {
+  const marks = (markup ?? []).map(({ type, x, y, label }) => (type === 'label' ? { type, x, y, label: label ?? '' } : { type, x, y }));
+  return marks.every(m => m.x < boardSize && m.y < boardSize) ? marks : null;
+};
+
+// Load a review and check the caller's role. Sends the error response and returns null when refused.
+const loadReview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  allowed: ReviewRole[] = ['owner', 'player', 'reviewer']
+): Promise<{ review: ReviewDocument; role: ReviewRole } | null> => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return null;
+  }
+
+  const review = await Review.findById(req.params['id']);
+  if (!review) {
+    res.status(404).json({ error: 'Review not found' });
+    return null;
+  }
+
+  const role = review.getRole(req.player._id as Types.ObjectId);
+  if (!role) {
+    res.status(403).json({ error: 'You do not have access to this review' });
+    return null;
+  }
+  if (!allowed.includes(role)) {
+    res.status(403).json({ error: 'Only the review owner can do this' });
+    return null;
+  }
+
+  return { review, role };
+};
+
+// Create a review of a match, optionally seeded from an SGF with comments and variations
+router.post('/', [
+  body('matchId').isMongoId(),
+  body('title').optional().isString().isLength({ max: 100 }),
+  body('sgf').optional().isString()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { matchId, title = '', sgf } = req.body;
+    const match = await Match.findById(matchId);
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+
+    const owner = req.player._id as Types.ObjectId;
+    const content = sgf ? reviewFromSgf(match, sgf, owner) : { notes: [], variations: [] };
+
+    const review = await Review.create({
+      matchId: match._id,
+      owner,
+      title,
+      players: match.players.map(p => p.playerId).filter((id): id is Types.ObjectId => Boolean(id)),
+      reviewers: [],
+      notes: content.notes,
+      variations: content.variations
+    });
+
+    res.status(201).json({
+      message: 'Review created successfully',
+      data: { review }
+    });
+  } catch (error) {
+    if (error instanceof SgfError) {
+      return res.status(400).json({ error: error.message, code: error.code, line: error.line, column: error.column });
+    }
+    console.error('Review creation error:', error);
+    res.status(500).json({ error: 'Server error creating review' });
+  }
+});
+
+// List reviews the current player can see
+router.get('/', [
+  query('matchId').optional().isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const playerId = req.player._id;
+    const filter: Record<string, unknown> = {
+      $or: [{ owner: playerId }, { players: playerId }, { reviewers: playerId }]
+    };
+
+    if (req.query['matchId']) filter['matchId'] = new Types.ObjectId(req.query['matchId'] as string);
+
+    const reviews = await Review.find(filter)
+      .select('-notes -variations')
+      .sort({ updatedAt: -1 })
+      .populate('owner', 'username displayName');
+
+    res.json({
+      message: 'Reviews retrieved successfully',
+      data: { reviews }
+    });
+  } catch (error) {
+    console.error('Reviews retrieval error:', error);
+    res.status(500).json({ error: 'Server error retrieving reviews' });
+  }
+});
+
+// Get a review with all its notes and variations
+router.get('/:id', [
+  param('id').isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    res.json({
+      message: 'Review retrieved successfully',
+      data: { review: loaded.review, role: loaded.role }
+    });
+  } catch (error) {
+    console.error('Review retrieval error:', error);
+    res.status(500).json({ error: 'Server error retrieving review' });
+  }
+});
+
+// Rename a review
+router.put('/:id', [
+  param('id').isMongoId(),
+  body('title').isString().isLength({ max: 100 })
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res, ['owner']);
+    if (!loaded) return;
+
+    loaded.review.title = req.body.title;
+    await loaded.review.save();
+
+    res.json({
+      message: 'Review updated successfully',
+      data: { review: loaded.review }
+    });
+  } catch (error) {
+    console.error('Review update error:', error);
+    res.status(500).json({ error: 'Server error updating review' });
+  }
+});
+
+// Delete a review
+router.delete('/:id', [
+  param('id').isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res, ['owner']);
+    if (!loaded) return;
+
+    await loaded.review.deleteOne();
+
+    res.json({ message: 'Review deleted successfully' });
+  } catch (error) {
+    console.error('Review deletion error:', error);
+    res.status(500).json({ error: 'Server error deleting review' });
+  }
+});
+
+// Invite a reviewer
+router.post('/:id/reviewers', [
+  param('id').isMongoId(),
+  body('playerId').isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res, ['owner']);
+    if (!loaded) return;
+
+    const player = await Player.findById(req.body.playerId).select('username displayName');
+    if (!player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const { review } = loaded;
+    if (!review.getRole(player._id as Types.ObjectId)) {
+      review.reviewers.push(player._id as Types.ObjectId);
+      await review.save();
+    }
+
+    res.json({
+      message: 'Reviewer invited successfully',
+      data: { review }
+    });
+  } catch (error) {
+    console.error('Reviewer invite error:', error);
+    res.status(500).json({ error: 'Server error inviting reviewer' });
+  }
+});
+
+// Remove a reviewer (reviewers may also remove themselves)
+router.delete('/:id/reviewers/:playerId', [
+  param('id').isMongoId(),
+  param('playerId').isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review, role } = loaded;
+    const playerId = req.params['playerId'] as string;
+
+    if (role !== 'owner' && playerId !== req.player._id.toString()) {
+      return res.status(403).json({ error: 'Only the review owner can do this' });
+    }
+
+    review.reviewers = review.reviewers.filter(r => r.toString() !== playerId);
+    await review.save();
+
+    res.json({
+      message: 'Reviewer removed successfully',
+      data: { review }
+    });
+  } catch (error) {
+    console.error('Reviewer removal error:', error);
+    res.status(500).json({ error: 'Server error removing reviewer' });
+  }
+});
+
+// Set the comment and markup on a main-line position
+router.put('/:id/notes/:moveNumber', [
+  param('id').isMongoId(),
+  param('moveNumber').isInt({ min: 0 }).toInt(),
+  body('comment').optional().isString().isLength({ max: 2000 }),
+  ...markupValidators
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review } = loaded;
+    const match = await Match.findById(review.matchId).select('moves gameSettings');
+    const moveNumber = Number(req.params['moveNumber']);
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+    if (moveNumber > match.moves.length) {
+      return res.status(400).json({ error: `Move must be between 0 and ${match.moves.length}` });
+    }
+
+    const markup = readMarkup(req.body.markup, match.gameSettings.boardSize);
+    if (!markup) {
+      return res.status(400).json({ error: 'Markup must be on the board' });
+    }
+
+    const note = {
+      moveNumber,
+      comment: req.body.comment ?? '',
+      markup,
+      author: req.player._id as Types.ObjectId,
+      updatedAt: new Date()
+    };
+    review.notes = [...review.notes.filter(n => n.moveNumber !== moveNumber), note]
+      .sort((a, b) => a.moveNumber - b.moveNumber);
+    await review.save();
+
+    res.json({
+      message: 'Note saved successfully',
+      data: { note }
+    });
+  } catch (error) {
+    console.error('Review note error:', error);
+    res.status(500).json({ error: 'Server error saving note' });
+  }
+});
+
+// Remove the note on a main-line position
+router.delete('/:id/notes/:moveNumber', [
+  param('id').isMongoId(),
+  param('moveNumber').isInt({ min: 0 }).toInt()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review } = loaded;
+    const moveNumber = Number(req.params['moveNumber']);
+    review.notes = review.notes.filter(n => n.moveNumber !== moveNumber);
+    await review.save();
+
+    res.json({ message: 'Note deleted successfully' });
+  } catch (error) {
+    console.error('Review note deletion error:', error);
+    res.status(500).json({ error: 'Server error deleting note' });
+  }
+});
+
+// Add a variation move, either branching off the main line or continuing an existing variation
+router.post('/:id/variations', [
+  param('id').isMongoId(),
+  body('parentId').optional({ nullable: true }).isString(),
+  body('moveNumber').optional().isInt({ min: 0 }).toInt(),
+  body('color').optional().isIn(['black', 'white']),
+  body('pass').optional().isBoolean(),
+  body('x').if(body('pass').not().equals('true')).isInt({ min: 0, max: 18 }).toInt(),
+  body('y').if(body('pass').not().equals('true')).isInt({ min: 0, max: 18 }).toInt(),
+  body('comment').optional().isString().isLength({ max: 2000 }),
+  ...markupValidators
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review } = loaded;
+    const match = await Match.findById(review.matchId).select('moves gameSettings gameRules');
+    const { parentId = null, moveNumber, color, x, y, pass = false, comment = '' } = req.body;
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+    if (parentId && !review.variations.some(v => v.nodeId === parentId)) {
+      return res.status(404).json({ error: 'Parent variation not found' });
+    }
+    if (!parentId && (moveNumber === undefined || moveNumber > match.moves.length)) {
+      return res.status(400).json({ error: `moveNumber must be between 0 and ${match.moves.length}` });
+    }
+
+    const markup = readMarkup(req.body.markup, match.gameSettings.boardSize);
+    if (!markup) {
+      return res.status(400).json({ error: 'Markup must be on the board' });
+    }
+
+    const node = createVariationNode(match, review.variations, {
+      parentId,
+      moveNumber: moveNumber ?? 0,
+      color,
+      x: Number(x),
+      y: Number(y),
+      pass: pass === true || pass === 'true'
+    }, req.player._id as Types.ObjectId);
+    node.comment = comment;
+    node.markup = markup;
+
+    review.variations.push(node);
+    await review.save();
+
+    res.status(201).json({
+      message: 'Variation move added successfully',
+      data: { node }
+    });
+  } catch (error) {
+    if (error instanceof IllegalMoveError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    console.error('Review variation error:', error);
+    res.status(500).json({ error: 'Server error adding variation' });
+  }
+});
+
+// Update the comment and markup of a variation move
+router.put('/:id/variations/:nodeId', [
+  param('id').isMongoId(),
+  param('nodeId').notEmpty(),
+  body('comment').optional().isString().isLength({ max: 2000 }),
+  ...markupValidators
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review } = loaded;
+    const node = review.variations.find(v => v.nodeId === req.params['nodeId']);
+
+    if (!node) {
+      return res.status(404).json({ error: 'Variation not found' });
+    }
+
+    const match = await Match.findById(review.matchId).select('gameSettings');
+    const markup = readMarkup(req.body.markup ?? node.markup, match?.gameSettings.boardSize ?? 19);
+    if (!markup) {
+      return res.status(400).json({ error: 'Markup must be on the board' });
+    }
+
+    if (req.body.comment !== undefined) node.comment = req.body.comment;
+    node.markup = markup;
+    await review.save();
+
+    res.json({
+      message: 'Variation updated successfully',
+      data: { node }
+    });
+  } catch (error) {
+    console.error('Review variation update error:', error);
+    res.status(500).json({ error: 'Server error updating variation' });
+  }
+});
+
+// Delete a variation move together with everything played after it
+router.delete('/:id/variations/:nodeId', [
+  param('id').isMongoId(),
+  param('nodeId').notEmpty()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const { review } = loaded;
+    const nodeId = req.params['nodeId'] as string;
+
+    if (!review.variations.some(v => v.nodeId === nodeId)) {
+      return res.status(404).json({ error: 'Variation not found' });
+    }
+
+    const removed = subtreeIds(review.variations, nodeId);
+    review.variations = review.variations.filter(v => !removed.has(v.nodeId));
+    await review.save();
+
+    res.json({
+      message: 'Variation deleted successfully',
+      data: { removed: removed.size }
+    });
+  } catch (error) {
+    console.error('Review variation deletion error:', error);
+    res.status(500).json({ error: 'Server error deleting variation' });
+  }
+});
+
+// Download the review as an SGF file with comments, markup and variations
+router.get('/:id/sgf', [
+  param('id').isMongoId()
+], auth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const loaded = await loadReview(req, res);
+    if (!loaded) return;
+
+    const match = await Match.findById(loaded.review.matchId);
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found' });
+    }
+
+    res.type('application/x-go-sgf')
+      .attachment(`review-${loaded.review._id}.sgf`)
+      .send(reviewToSgf(match, loaded.review));
+  } catch (error) {
+    console.error('Review SGF export error:', error);
+    res.status(500).json({ error: 'Server error exporting review' });
+  }
+});
+
+export default router;
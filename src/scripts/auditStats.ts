@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { auditPlayerStats } from '../services/statsAudit';
+
+dotenv.config();
+
+// Recompute player stats from the Match history and print every mismatch.
+// Run after a build with `npm run audit:stats`; add `-- --fix` to write the corrected stats.
+const run = async (): Promise<void> => {
+  await mongoose.connect(process.env['MONGODB_URI'] || 'mongodb://localhost:27017/go-game-db');
+
+  const report = await auditPlayerStats({ fix: process.argv.includes('--fix') });
+
+  report.players.forEach(player => {
+    console.log(`${player.username} (${player.playerId})`);
+    player.discrepancies.forEach(d => console.log(`  ${d.field}: stored ${d.stored}, expected ${d.expected}`));
+  });
+
+  console.log(`Scanned ${report.matchesScanned} match(es) and ${report.playersChecked} player(s)`);
+  console.log(report.fixed
+    ? `Corrected stats for ${report.players.length} player(s)`
+    : `${report.players.length} player(s) with discrepancies (run with --fix to correct them)`);
+};
+
+run()
+  .catch(err => {
+    console.error('Stats audit failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { rebuildCategoryStats } from '../services/statsAudit';
+
+dotenv.config();
+
+// Rebuild players' per board size / time control / color stats from the Match history.
+// Run after a build with `npm run backfill:stats`.
+const run = async (): Promise<void> => {
+  await mongoose.connect(process.env['MONGODB_URI'] || 'mongodb://localhost:27017/go-game-db');
+
+  const players = await rebuildCategoryStats();
+  console.log(`Rebuilt stats buckets for ${players} player(s)`);
+};
+
+run()
+  .catch(err => {
+    console.error('Stats backfill failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
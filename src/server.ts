@@ -9,6 +9,12 @@ import authRoutes from './routes/auth';
 import playerRoutes from './routes/players';
 import matchRoutes from './routes/matches';
 import gameRoutes from './routes/games';
+import reviewRoutes from './routes/reviews';
+import adminRoutes from './routes/admin';
+import { startTimeoutScheduler } from './services/timeoutScheduler';
+import { archivePendingGames } from './services/gameCompletion';
+import { startRatingScheduler } from './services/ratings';
+import { startLeaderboardScheduler } from './services/leaderboards';
 
 dotenv.config();
 
@@ -29,12 +35,47 @@ app.use(cors({
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Run a startup task on its own, so one that fails does not keep the others from starting
+const startTask = (name: string, task: () => Promise<void>): void => {
+  task().catch(error => console.error(`${name} error:`, error));
+};
+
 // Database connection
 mongoose.connect(process.env['MONGODB_URI'] || 'mongodb://localhost:27017/go-game-db', {
   useNewUrlParser: true,
   useUnifiedTopology: true,
 } as mongoose.ConnectOptions)
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+
+    // Finish archiving games that completed while the server was going down
+    startTask('Pending game archive', async () => {
+      const archived = await archivePendingGames();
+      if (archived > 0) {
+        console.log(`Archived ${archived} completed game(s)`);
+      }
+    });
+
+    // Rebuild flag timers for games whose clocks were running before a restart
+    startTask('Timeout scheduler startup', async () => {
+      const timedGames = await startTimeoutScheduler(io);
+      console.log(`Timeout scheduler watching ${timedGames} game(s)`);
+    });
+
+    // Rate matches from rating periods that closed while the server was down, then each period as it ends
+    startTask('Rating scheduler startup', async () => {
+      const rated = await startRatingScheduler();
+      if (rated > 0) {
+        console.log(`Rated ${rated} match(es) from earlier rating periods`);
+      }
+    });
+
+    // Build the leaderboards, then keep them up to date in the background
+    startTask('Leaderboard scheduler startup', async () => {
+      const entries = await startLeaderboardScheduler();
+      console.log(`Leaderboards built with ${entries} entries`);
+    });
+  })
   .catch(err => console.error('MongoDB connection error:', err));
 
 // Routes
@@ -42,6 +83,8 @@ app.use('/api/auth', authRoutes);
 app.use('/api/players', playerRoutes);
 app.use('/api/matches', matchRoutes);
 app.use('/api/games', gameRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Socket.IO connection handling
 io.on('connection', (socket: Socket) => {
@@ -0,0 +1,82 @@
+import { ClockSettings } from '../types';
+import { CLOCK_PRESETS, chargeTime, createPlayerClock, resolveClockSettings, timeUntilFlag } from './gameClock';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+describe('resolveClockSettings', () => {
+    it('returns no clock for untimed games', () => {
+        expect(resolveClockSettings('None', 'fischer')).toBeNull();
+    });
+
+    it('uses the preset and lets the time limit override the main time', () => {
+        expect(resolveClockSettings('Blitz', 'byoyomi')).toEqual(CLOCK_PRESETS.Blitz.byoyomi);
+        expect(resolveClockSettings('Rapid', 'absolute', 15)?.mainTime).toBe(15 * MINUTE);
+    });
+});
+
+describe('chargeTime', () => {
+    it('flags an absolute clock that runs out', () => {
+        const settings: ClockSettings = { type: 'absolute', mainTime: 10 * SECOND };
+        const clock = createPlayerClock(settings);
+
+        expect(chargeTime(clock, settings, 4 * SECOND)).toEqual({ clock: { ...clock, mainTime: 6 * SECOND }, flagged: false });
+        expect(chargeTime(clock, settings, 10 * SECOND).flagged).toBe(true);
+    });
+
+    it('adds the Fischer increment only for a completed turn, up to the maximum', () => {
+        const settings: ClockSettings = { type: 'fischer', mainTime: 60 * SECOND, increment: 10 * SECOND, maxTime: 65 * SECOND };
+        const clock = createPlayerClock(settings);
+
+        expect(chargeTime(clock, settings, 20 * SECOND).clock.mainTime).toBe(50 * SECOND);
+        expect(chargeTime(clock, settings, 2 * SECOND).clock.mainTime).toBe(65 * SECOND);
+        expect(chargeTime(clock, settings, 20 * SECOND, false).clock.mainTime).toBe(40 * SECOND);
+    });
+
+    it('uses up byo-yomi periods and resets the current one after a move', () => {
+        const settings: ClockSettings = { type: 'byoyomi', mainTime: 60 * SECOND, periods: 5, periodTime: 10 * SECOND };
+        const clock = createPlayerClock(settings);
+
+        const moved = chargeTime(clock, settings, 85 * SECOND);
+        expect(moved.flagged).toBe(false);
+        expect(moved.clock).toMatchObject({ mainTime: 0, inOvertime: true, periodsLeft: 3, periodTimeLeft: 10 * SECOND });
+
+        const thinking = chargeTime(clock, settings, 85 * SECOND, false);
+        expect(thinking.clock.periodTimeLeft).toBe(5 * SECOND);
+
+        expect(chargeTime(clock, settings, 110 * SECOND).flagged).toBe(true);
+    });
+
+    it('resets a Canadian period once its stones are played', () => {
+        const settings: ClockSettings = { type: 'canadian', mainTime: 0, periodTime: 60 * SECOND, stonesPerPeriod: 2 };
+
+        const first = chargeTime(createPlayerClock(settings), settings, 20 * SECOND);
+        expect(first.clock).toMatchObject({ inOvertime: true, periodTimeLeft: 40 * SECOND, stonesLeft: 1 });
+
+        const second = chargeTime(first.clock, settings, 30 * SECOND);
+        expect(second.clock).toMatchObject({ periodTimeLeft: 60 * SECOND, stonesLeft: 2 });
+
+        expect(chargeTime(first.clock, settings, 40 * SECOND).flagged).toBe(true);
+    });
+});
+
+describe('timeUntilFlag', () => {
+    const byoyomi: ClockSettings = { type: 'byoyomi', mainTime: 60 * SECOND, periods: 5, periodTime: 10 * SECOND };
+
+    it('counts main time and every byo-yomi period on a fresh clock', () => {
+        expect(timeUntilFlag(createPlayerClock(byoyomi), byoyomi)).toBe(110 * SECOND);
+    });
+
+    it('counts only what is left of the current byo-yomi period', () => {
+        const { clock } = chargeTime(createPlayerClock(byoyomi), byoyomi, 65 * SECOND, false);
+        expect(timeUntilFlag(clock, byoyomi)).toBe(45 * SECOND);
+    });
+
+    it('counts what is left of the current Canadian period in overtime', () => {
+        const canadian: ClockSettings = { type: 'canadian', mainTime: 30 * SECOND, periodTime: 60 * SECOND, stonesPerPeriod: 5 };
+        const clock = createPlayerClock(canadian);
+
+        expect(timeUntilFlag(clock, canadian)).toBe(90 * SECOND);
+        expect(timeUntilFlag(chargeTime(clock, canadian, 50 * SECOND).clock, canadian)).toBe(40 * SECOND);
+    });
+});
@@ -0,0 +1,159 @@
+import { ClockSettings, ClockType, PlayerClock, TimeControl } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+export const CLOCK_TYPES: ClockType[] = ['absolute', 'fischer', 'byoyomi', 'canadian'];
+
+// Default clock for every time control and clock type
+export const CLOCK_PRESETS: Record<Exclude<TimeControl, 'None'>, Record<ClockType, ClockSettings>> = {
+    Blitz: {
+        absolute: { type: 'absolute', mainTime: 5 * MINUTE },
+        fischer: { type: 'fischer', mainTime: 3 * MINUTE, increment: 2 * SECOND, maxTime: 5 * MINUTE },
+        byoyomi: { type: 'byoyomi', mainTime: 1 * MINUTE, periods: 5, periodTime: 10 * SECOND },
+        canadian: { type: 'canadian', mainTime: 1 * MINUTE, periodTime: 1 * MINUTE, stonesPerPeriod: 10 }
+    },
+    Rapid: {
+        absolute: { type: 'absolute', mainTime: 20 * MINUTE },
+        fischer: { type: 'fischer', mainTime: 10 * MINUTE, increment: 10 * SECOND, maxTime: 20 * MINUTE },
+        byoyomi: { type: 'byoyomi', mainTime: 10 * MINUTE, periods: 5, periodTime: 30 * SECOND },
+        canadian: { type: 'canadian', mainTime: 10 * MINUTE, periodTime: 5 * MINUTE, stonesPerPeriod: 25 }
+    },
+    Classical: {
+        absolute: { type: 'absolute', mainTime: 90 * MINUTE },
+        fischer: { type: 'fischer', mainTime: 60 * MINUTE, increment: 30 * SECOND, maxTime: 120 * MINUTE },
+        byoyomi: { type: 'byoyomi', mainTime: 60 * MINUTE, periods: 5, periodTime: 60 * SECOND },
+        canadian: { type: 'canadian', mainTime: 60 * MINUTE, periodTime: 10 * MINUTE, stonesPerPeriod: 25 }
+    }
+};
+
+export interface ClockCharge {
+    clock: PlayerClock;
+    flagged: boolean;
+}
+
+// Raised when a player tries to move after their time has run out
+export class TimeExpiredError extends Error {
+    readonly code = 'TIMEOUT';
+
+    constructor(message: string = 'Time has expired') {
+        super(message);
+        this.name = 'TimeExpiredError';
+    }
+}
+
+// Pick the preset for a time control; `timeLimit` (minutes) overrides the main time.
+// Returns null for untimed games.
+export const resolveClockSettings = (
+    timeControl: TimeControl,
+    clockType: ClockType = 'absolute',
+    timeLimit?: number
+): ClockSettings | null => {
+    if (timeControl === 'None') return null;
+
+    const preset = CLOCK_PRESETS[timeControl][clockType];
+    return timeLimit ? { ...preset, mainTime: timeLimit * MINUTE } : { ...preset };
+};
+
+export const createPlayerClock = (settings: ClockSettings): PlayerClock => ({
+    mainTime: settings.mainTime,
+    periodsLeft: settings.periods ?? 0,
+    periodTimeLeft: settings.periodTime ?? 0,
+    stonesLeft: settings.stonesPerPeriod ?? 0,
+    inOvertime: false
+});
+
+// Plain copy of a stored clock (stored clocks may be Mongoose nested objects)
+export const copyClock = (clock: PlayerClock): PlayerClock => ({
+    mainTime: clock.mainTime,
+    periodsLeft: clock.periodsLeft,
+    periodTimeLeft: clock.periodTimeLeft,
+    stonesLeft: clock.stonesLeft,
+    inOvertime: clock.inOvertime
+});
+
+// Time a player can still think before flagging, assuming no move is made
+export const timeUntilFlag = (clock: PlayerClock, settings: ClockSettings): number => {
+    switch (settings.type) {
+        case 'byoyomi':
+            // In overtime the current period may already be partly used
+            if (clock.inOvertime && clock.periodsLeft > 0) {
+                return (clock.periodsLeft - 1) * (settings.periodTime ?? 0) + clock.periodTimeLeft;
+            }
+            return clock.mainTime + clock.periodsLeft * (settings.periodTime ?? 0);
+        case 'canadian':
+            return clock.mainTime + (clock.inOvertime ? clock.periodTimeLeft : settings.periodTime ?? 0);
+        default:
+            return clock.mainTime;
+    }
+};
+
+// Deduct thinking time from a clock. `completedTurn` is true when the player made a move or pass,
+// which earns Fischer increments, resets a byo-yomi period and counts towards a Canadian period.
+export const chargeTime = (
+    current: PlayerClock,
+    settings: ClockSettings,
+    elapsed: number,
+    completedTurn: boolean = true
+): ClockCharge => {
+    const clock = copyClock(current);
+    const spent = Math.max(0, elapsed);
+
+    if (settings.type === 'absolute' || settings.type === 'fischer') {
+        clock.mainTime -= spent;
+        if (clock.mainTime <= 0) {
+            return { clock: { ...clock, mainTime: 0 }, flagged: true };
+        }
+        if (settings.type === 'fischer' && completedTurn) {
+            const added = clock.mainTime + (settings.increment ?? 0);
+            clock.mainTime = settings.maxTime ? Math.min(added, settings.maxTime) : added;
+        }
+        return { clock, flagged: false };
+    }
+
+    if (clock.mainTime > spent) {
+        clock.mainTime -= spent;
+        return { clock, flagged: false };
+    }
+
+    let overflow = spent - clock.mainTime;
+    clock.mainTime = 0;
+    const periodTime = settings.periodTime ?? 0;
+
+    if (settings.type === 'byoyomi') {
+        clock.inOvertime = true;
+        // Each full period used up is lost; a move inside a period keeps it
+        while (clock.periodsLeft > 0 && overflow >= periodTime) {
+            overflow -= periodTime;
+            clock.periodsLeft -= 1;
+        }
+        clock.periodTimeLeft = periodTime - overflow;
+        if (clock.periodsLeft <= 0) {
+            return { clock: { ...clock, periodsLeft: 0, periodTimeLeft: 0 }, flagged: true };
+        }
+        if (completedTurn) clock.periodTimeLeft = periodTime;
+        return { clock, flagged: false };
+    }
+
+    // Canadian overtime: a fixed number of stones must be played within each period
+    if (!clock.inOvertime) {
+        clock.inOvertime = true;
+        clock.periodTimeLeft = periodTime;
+        clock.stonesLeft = settings.stonesPerPeriod ?? 1;
+    }
+
+    clock.periodTimeLeft -= overflow;
+    if (clock.periodTimeLeft <= 0) {
+        return { clock: { ...clock, periodTimeLeft: 0 }, flagged: true };
+    }
+
+    if (completedTurn) {
+        clock.stonesLeft -= 1;
+        if (clock.stonesLeft <= 0) {
+            clock.periodTimeLeft = periodTime;
+            clock.stonesLeft = settings.stonesPerPeriod ?? 1;
+        }
+    }
+
+    return { clock, flagged: false };
+};
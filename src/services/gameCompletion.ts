@@ -0,0 +1,233 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { Game, GameDocument } from '../models/Game';
+import { Match, MatchDocument } from '../models/Match';
+import { Player } from '../models/Player';
+import { GameMove, GameResult, IPlayer, MatchPlayer, MatchResult, StoneColor } from '../types';
+import { cloneBoard } from './goEngine';
+import { outcomeOf } from './matchOutcome';
+import { categoryOf } from './playerStats';
+
+const resultFor = (color: StoneColor, winnerColor: StoneColor | null): GameResult => {
+    if (winnerColor === null) return 'draw';
+    return color === winnerColor ? 'win' : 'loss';
+};
+
+// Build the Match document for a completed game; `ranks` are the players' current ranks by id
+const buildMatch = (game: GameDocument, ranks: Map<string, Pick<IPlayer, 'rank' | 'goRank'>>) => {
+    const result = game.result as NonNullable<GameDocument['result']>;
+    const score = game.finalScore;
+    const komi = game.gameSettings.komi;
+
+    const players: MatchPlayer[] = game.players.map(p => {
+        const player: MatchPlayer = {
+            playerId: p.playerId,
+            username: p.username,
+            displayName: p.displayName,
+            color: p.color,
+            finalScore: score ? score[p.color].total : 0,
+            capturedStones: p.capturedStones,
+            territory: score ? score[p.color].territory : 0,
+            komi: p.color === 'white' ? komi : 0
+        };
+        const rank = ranks.get(p.playerId.toString());
+        if (rank) {
+            player.rank = rank.rank;
+            player.goRank = rank.goRank;
+        }
+        return player;
+    });
+
+    const moves: GameMove[] = game.boardState.moveHistory.map(m => ({
+        playerId: m.playerId,
+        color: m.color,
+        x: m.x,
+        y: m.y,
+        timestamp: m.timestamp,
+        capturedStones: m.capturedStones.map(c => ({ x: c.x, y: c.y })),
+        pass: m.pass
+    }));
+
+    const finalScore = {
+        black: score ? score.black.total : 0,
+        white: score ? score.white.total : 0
+    };
+
+    const matchResult: MatchResult = {
+        outcome: result.winnerColor ? 'win' : 'draw',
+        winnerColor: result.winnerColor,
+        finalScore,
+        margin: score ? score.margin : 0,
+        endReason: result.endReason
+    };
+    if (result.winner) matchResult.winner = result.winner;
+
+    const startTime = game.metadata.startedAt ?? game.metadata.createdAt;
+    const endTime = result.endedAt;
+
+    return {
+        matchId: game.gameId,
+        players,
+        gameSettings: {
+            boardSize: game.gameSettings.boardSize,
+            timeControl: game.gameSettings.timeControl,
+            handicap: game.gameSettings.handicap,
+            handicapPlacement: game.gameSettings.handicapPlacement,
+            komi,
+            rated: game.gameSettings.rated,
+            handicapMode: game.gameSettings.handicapMode
+        },
+        gameState: {
+            status: 'completed',
+            currentTurn: game.boardState.currentTurn,
+            moveCount: game.boardState.moveCount,
+            lastMove: game.boardState.lastMove?.color ? game.boardState.lastMove : undefined,
+            board: cloneBoard(game.boardState.board).map(row => row.map(cell => ({
+                stone: cell.stone,
+                liberties: cell.liberties
+            }))),
+            capturedStones: {
+                black: game.boardState.capturedStones.black,
+                white: game.boardState.capturedStones.white
+            }
+        },
+        moves,
+        result: matchResult,
+        gameRules: {
+            suicideAllowed: game.gameRules.suicideAllowed,
+            koRule: game.gameRules.koRule,
+            scoringMethod: game.gameRules.scoringMethod
+        },
+        chat: game.chat.map(c => ({
+            playerId: c.playerId,
+            username: c.username,
+            message: c.message,
+            timestamp: c.timestamp,
+            type: c.type
+        })),
+        metadata: {
+            startTime,
+            endTime,
+            duration: Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)),
+            spectators: game.metadata.spectators,
+            statsRecorded: false
+        }
+    };
+};
+
+// How many recent matches each player remembers in `statsMatches`; a match left half recorded is
+// retried long before either player finishes this many newer games
+const STATS_MATCH_HISTORY = 50;
+
+// Apply the match result to both players' stats exactly once. Each player's stats are written in
+// one update together with the match id, skipping players who already have it, and the match is
+// only marked as recorded once every player is done. A retry after a crash or a failed write
+// finishes the players still missing without counting anyone twice.
+// Games without a result (no-result outcome or no result at all) do not count.
+export const recordMatchStats = async (match: MatchDocument): Promise<boolean> => {
+    const outcome = outcomeOf(match);
+    if (!outcome || outcome === 'no-result' || !match.result) {
+        return false;
+    }
+
+    const pending = await Match.exists({ _id: match._id, 'metadata.statsRecorded': { $ne: true } });
+    if (!pending) {
+        return false;
+    }
+
+    const winnerColor = match.result.outcome === 'draw' ? null : match.result.winnerColor ?? null;
+    let applied = false;
+
+    for (const matchPlayer of match.players) {
+        if (!matchPlayer.playerId) continue;
+
+        const notYetApplied = { _id: matchPlayer.playerId, statsMatches: { $ne: match._id } };
+        const player = await Player.findOne(notYetApplied);
+        if (!player) continue;
+
+        player.updateStats(
+            resultFor(matchPlayer.color, winnerColor),
+            matchPlayer.finalScore || 0,
+            categoryOf(match, matchPlayer.color)
+        );
+        const updated = await Player.updateOne(notYetApplied, {
+            $set: { stats: player.stats, updatedAt: new Date() },
+            $push: { statsMatches: { $each: [match._id], $slice: -STATS_MATCH_HISTORY } }
+        });
+        applied = applied || updated.modifiedCount > 0;
+    }
+
+    await Match.updateOne({ _id: match._id }, { $set: { 'metadata.statsRecorded': true } });
+    match.metadata.statsRecorded = true;
+    return applied;
+};
+
+// Write the Match record for a completed game (at most once) and update stats
+export const archiveGame = async (game: GameDocument): Promise<MatchDocument> => {
+    if (game.status !== 'completed' || !game.result?.endReason) {
+        throw new Error('Game has not been finished');
+    }
+
+    // Stats are only updated after the match is written, so these are the ranks the game was played at
+    const players = await Player.find({ _id: { $in: game.players.map(p => p.playerId) } }).select('rank goRank');
+    const ranks = new Map(players.map(p => [String(p._id), { rank: p.rank, goRank: p.goRank }]));
+
+    // matchId is the gameId, so the upsert finds the existing record on retries
+    const match = await Match.findOneAndUpdate(
+        { matchId: game.gameId },
+        { $setOnInsert: buildMatch(game, ranks) },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+    ) as MatchDocument;
+
+    await recordMatchStats(match);
+
+    if (!game.result.matchId) {
+        game.result.matchId = match._id;
+        await game.save();
+    }
+
+    return match;
+};
+
+// Shared last step for every way a game can end (scoring, resignation, timeout).
+// Expects the game to be saved with status 'completed' and a result.
+export const completeGame = async (game: GameDocument, io?: SocketIOServer): Promise<MatchDocument> => {
+    const match = await archiveGame(game);
+
+    if (io) {
+        const winner = game.players.find(p => p.color === game.result?.winnerColor);
+        io.to(`game-${game.gameId}`).emit('game-ended', {
+            gameId: game.gameId,
+            reason: game.result?.endReason ?? 'normal',
+            winner: winner ? {
+                playerId: winner.playerId,
+                username: winner.username,
+                color: winner.color
+            } : undefined,
+            result: game.result,
+            score: game.finalScore,
+            matchId: match._id
+        });
+    }
+
+    return match;
+};
+
+// Archive games that completed without finishing the archive step (e.g. the server stopped mid-way).
+// A game only gets its matchId once the stats are recorded, so this also finishes interrupted stats.
+export const archivePendingGames = async (): Promise<number> => {
+    const games = await Game.find({
+        status: 'completed',
+        'result.endReason': { $exists: true },
+        'result.matchId': { $exists: false }
+    });
+
+    for (const game of games) {
+        try {
+            await archiveGame(game);
+        } catch (error) {
+            console.error(`Archive error for game ${game.gameId}:`, error);
+        }
+    }
+
+    return games.length;
+};
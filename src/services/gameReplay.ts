@@ -0,0 +1,101 @@
+import { BoardPosition, CapturedStones, HandicapPlacement, KoRule, StoneColor } from '../types';
+import { Board, createEmptyBoard, hashBoard, opponentOf, playMove } from './goEngine';
+import { createHandicapBoard, firstToMove } from './handicap';
+
+export interface ReplaySetup {
+    boardSize: number;
+    handicap: number;
+    handicapPlacement: HandicapPlacement;
+    suicideAllowed: boolean;
+    koRule: KoRule;
+}
+
+export interface ReplayMove {
+    color: StoneColor;
+    x: number;
+    y: number;
+    pass: boolean;
+}
+
+export interface ReplayState {
+    board: Board;
+    capturedStones: CapturedStones;
+    koPoint: BoardPosition | null;
+    positionHashes: string[];
+    currentTurn: StoneColor;
+    // Stones played, not counting passes
+    moveCount: number;
+    consecutivePasses: number;
+    movesPlayed: number;
+    lastMove: ReplayMove | null;
+    // Stones removed by each move, in the same order as the moves
+    capturedByMove: BoardPosition[][];
+}
+
+const isPlacingHandicap = (setup: ReplaySetup, movesPlayed: number): boolean =>
+    setup.handicapPlacement === 'free' && setup.handicap >= 2 && movesPlayed < setup.handicap;
+
+// Position before the first move, including fixed handicap stones
+export const createInitialState = (setup: ReplaySetup): ReplayState => {
+    const free = setup.handicapPlacement === 'free';
+    const board = free ? createEmptyBoard(setup.boardSize) : createHandicapBoard(setup.boardSize, setup.handicap);
+
+    return {
+        board,
+        capturedStones: { black: 0, white: 0 },
+        koPoint: null,
+        positionHashes: [hashBoard(board)],
+        currentTurn: free ? 'black' : firstToMove(setup.handicap),
+        moveCount: 0,
+        consecutivePasses: 0,
+        movesPlayed: 0,
+        lastMove: null,
+        capturedByMove: []
+    };
+};
+
+// Apply one move or pass to a replay state. Illegal moves throw IllegalMoveError from the engine.
+export const applyMove = (state: ReplayState, move: ReplayMove, setup: ReplaySetup): ReplayState => {
+    if (move.pass) {
+        return {
+            ...state,
+            koPoint: null,
+            positionHashes: [...state.positionHashes, state.positionHashes[state.positionHashes.length - 1] ?? hashBoard(state.board)],
+            currentTurn: opponentOf(move.color),
+            consecutivePasses: state.consecutivePasses + 1,
+            movesPlayed: state.movesPlayed + 1,
+            capturedByMove: [...state.capturedByMove, []]
+        };
+    }
+
+    const outcome = playMove(state.board, move.x, move.y, move.color, {
+        suicideAllowed: setup.suicideAllowed,
+        koRule: setup.koRule,
+        koPoint: state.koPoint,
+        positionHashes: state.positionHashes
+    });
+
+    const opponent = opponentOf(move.color);
+    const movesPlayed = state.movesPlayed + 1;
+
+    return {
+        board: outcome.board,
+        capturedStones: {
+            ...state.capturedStones,
+            [move.color]: state.capturedStones[move.color] + outcome.captured.length,
+            [opponent]: state.capturedStones[opponent] + outcome.selfCaptured.length
+        },
+        koPoint: outcome.koPoint,
+        positionHashes: [...state.positionHashes, outcome.positionHash],
+        currentTurn: isPlacingHandicap(setup, movesPlayed) ? 'black' : opponent,
+        moveCount: state.moveCount + 1,
+        consecutivePasses: 0,
+        movesPlayed,
+        lastMove: move,
+        capturedByMove: [...state.capturedByMove, [...outcome.captured, ...outcome.selfCaptured]]
+    };
+};
+
+// Rebuild the full game state by replaying moves from the initial position
+export const replayMoves = (setup: ReplaySetup, moves: ReplayMove[]): ReplayState =>
+    moves.reduce((state, move) => applyMove(state, move, setup), createInitialState(setup));
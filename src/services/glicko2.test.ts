@@ -0,0 +1,58 @@
+import { GlickoOutcome, GLICKO_DEFAULTS, inflateDeviation, outcomeChanges, updateGlicko } from './glicko2';
+
+// The worked example from Glickman, "Example of the Glicko-2 system"
+const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+const outcomes: GlickoOutcome[] = [
+    { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+    { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+    { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 }
+];
+
+describe('updateGlicko', () => {
+    it('matches the worked example', () => {
+        const updated = updateGlicko(player, outcomes);
+
+        expect(updated.rating).toBeCloseTo(1464.05, 1);
+        expect(updated.deviation).toBeCloseTo(151.52, 1);
+        expect(updated.volatility).toBeCloseTo(0.05999, 4);
+    });
+
+    it('only widens the deviation for a period without games', () => {
+        const updated = updateGlicko(player, []);
+
+        expect(updated.rating).toBe(player.rating);
+        expect(updated.volatility).toBe(player.volatility);
+        expect(updated.deviation).toBeCloseTo(200.27, 1);
+    });
+
+    it('moves ratings symmetrically for equal players', () => {
+        const opponent = { ...GLICKO_DEFAULTS };
+        const winner = updateGlicko(GLICKO_DEFAULTS, [{ opponent, score: 1 }]);
+        const loser = updateGlicko(GLICKO_DEFAULTS, [{ opponent, score: 0 }]);
+
+        expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+        expect(updateGlicko(GLICKO_DEFAULTS, [{ opponent, score: 0.5 }]).rating).toBeCloseTo(1500, 6);
+    });
+});
+
+describe('inflateDeviation', () => {
+    it('leaves the deviation alone without elapsed periods', () => {
+        expect(inflateDeviation(player, 0)).toBe(200);
+    });
+
+    it('never goes above the starting deviation', () => {
+        expect(inflateDeviation(player, 1000000)).toBe(GLICKO_DEFAULTS.deviation);
+    });
+});
+
+describe('outcomeChanges', () => {
+    it('splits the rating change between the games of the period', () => {
+        const updated = updateGlicko(player, outcomes);
+        const changes = outcomeChanges(player, outcomes, updated);
+
+        expect(changes).toHaveLength(3);
+        expect(changes[0]).toBeGreaterThan(0);
+        expect(changes[1]).toBeLessThan(0);
+        expect(changes.reduce((sum, change) => sum + change, 0)).toBeCloseTo(updated.rating - player.rating, 6);
+    });
+});
@@ -0,0 +1,116 @@
+import { GlickoRating } from '../types';
+
+// Glicko-2 as described in Glickman, "Example of the Glicko-2 system" (2013)
+
+export const GLICKO_DEFAULTS: GlickoRating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how much volatility can change between periods; 0.3 to 1.2 are reasonable
+export const SYSTEM_TAU = 0.5;
+
+// Conversion factor between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export interface GlickoOutcome {
+    opponent: GlickoRating;
+    // 1 for a win, 0.5 for a draw, 0 for a loss
+    score: number;
+}
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number): number =>
+    1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Deviation after `periods` rating periods without games; never above the starting deviation
+export const inflateDeviation = (rating: GlickoRating, periods: number): number => {
+    if (periods <= 0) return rating.deviation;
+    const phi = rating.deviation / SCALE;
+    const inflated = Math.sqrt(phi * phi + periods * rating.volatility * rating.volatility) * SCALE;
+    return Math.min(inflated, GLICKO_DEFAULTS.deviation);
+};
+
+// New volatility from the iterative procedure in step 5 (Illinois algorithm)
+const nextVolatility = (phi: number, sigma: number, delta: number, v: number, tau: number): number => {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number): number => {
+        const ex = Math.exp(x);
+        const d = phi * phi + v + ex;
+        return ex * (delta * delta - phi * phi - v - ex) / (2 * d * d) - (x - a) / (tau * tau);
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + v) {
+        B = Math.log(delta * delta - phi * phi - v);
+    } else {
+        let k = 1;
+        while (f(a - k * tau) < 0) k += 1;
+        B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+        const C = A + (A - B) * fA / (fB - fA);
+        const fC = f(C);
+        if (fC * fB <= 0) {
+            A = B;
+            fA = fB;
+        } else {
+            fA /= 2;
+        }
+        B = C;
+        fB = fC;
+    }
+
+    return Math.exp(A / 2);
+};
+
+// Rating after one rating period with the given results, all played against pre-period ratings
+export const updateGlicko = (player: GlickoRating, outcomes: GlickoOutcome[], tau: number = SYSTEM_TAU): GlickoRating => {
+    if (outcomes.length === 0) {
+        return { ...player, deviation: inflateDeviation(player, 1) };
+    }
+
+    const mu = (player.rating - 1500) / SCALE;
+    const phi = player.deviation / SCALE;
+
+    let vInverse = 0;
+    let improvement = 0;
+    outcomes.forEach(({ opponent, score }) => {
+        const opponentMu = (opponent.rating - 1500) / SCALE;
+        const opponentPhi = opponent.deviation / SCALE;
+        const expected = expectedScore(mu, opponentMu, opponentPhi);
+        vInverse += g(opponentPhi) ** 2 * expected * (1 - expected);
+        improvement += g(opponentPhi) * (score - expected);
+    });
+
+    const v = 1 / vInverse;
+    const delta = v * improvement;
+    const volatility = nextVolatility(phi, player.volatility, delta, v, tau);
+
+    const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+    const newMu = mu + newPhi * newPhi * improvement;
+
+    return {
+        rating: newMu * SCALE + 1500,
+        deviation: Math.min(newPhi * SCALE, GLICKO_DEFAULTS.deviation),
+        volatility
+    };
+};
+
+// How much each outcome moved the rating in an update from `player` to `updated`. Glicko-2 moves
+// the rating by the sum of these, so they split a period's change between the games in it.
+export const outcomeChanges = (player: GlickoRating, outcomes: GlickoOutcome[], updated: GlickoRating): number[] => {
+    const mu = (player.rating - 1500) / SCALE;
+    const newPhi = updated.deviation / SCALE;
+
+    return outcomes.map(({ opponent, score }) => {
+        const opponentPhi = opponent.deviation / SCALE;
+        const expected = expectedScore(mu, (opponent.rating - 1500) / SCALE, opponentPhi);
+        return newPhi * newPhi * g(opponentPhi) * (score - expected) * SCALE;
+    });
+};
@@ -0,0 +1,135 @@
+import { Board, IllegalMoveError, MoveContext, createEmptyBoard, hashBoard, playMove, refreshBoard } from './goEngine';
+
+// Build a board from rows of 'X' (black), 'O' (white) and '.' (empty); rows run top to bottom
+const boardFrom = (rows: string[]): Board => {
+    const board = createEmptyBoard(rows.length);
+    rows.forEach((row, y) => {
+        [...row].forEach((cell, x) => {
+            const point = board[y]?.[x];
+            if (point) point.stone = cell === 'X' ? 'black' : cell === 'O' ? 'white' : null;
+        });
+    });
+    return refreshBoard(board);
+};
+
+const context = (overrides: Partial<MoveContext> = {}): MoveContext => ({
+    suicideAllowed: false,
+    koRule: 'standard',
+    koPoint: null,
+    positionHashes: [],
+    ...overrides
+});
+
+const codeOf = (play: () => unknown): string | undefined => {
+    try {
+        play();
+    } catch (error) {
+        if (error instanceof IllegalMoveError) return error.code;
+        throw error;
+    }
+    return undefined;
+};
+
+describe('playMove', () => {
+    it('captures a group that loses its last liberty', () => {
+        const board = boardFrom([
+            '.X...',
+            'XOX..',
+            '.....',
+            '.....',
+            '.....'
+        ]);
+
+        const outcome = playMove(board, 1, 2, 'black', context());
+
+        expect(outcome.captured).toEqual([{ x: 1, y: 1 }]);
+        expect(outcome.board[1]?.[1]?.stone).toBeNull();
+        expect(outcome.board[2]?.[1]?.stone).toBe('black');
+    });
+
+    it('does not mutate the input board', () => {
+        const board = boardFrom(['.....', '.....', '.....', '.....', '.....']);
+        playMove(board, 2, 2, 'black', context());
+        expect(board[2]?.[2]?.stone).toBeNull();
+    });
+
+    it('rejects moves off the board and on occupied points', () => {
+        const board = boardFrom(['X....', '.....', '.....', '.....', '.....']);
+
+        expect(codeOf(() => playMove(board, 5, 0, 'white', context()))).toBe('INVALID_COORDINATES');
+        expect(codeOf(() => playMove(board, 0, 0, 'white', context()))).toBe('OCCUPIED');
+    });
+
+    it('rejects suicide unless the rules allow it', () => {
+        const board = boardFrom([
+            '.X...',
+            'X....',
+            '.....',
+            '.....',
+            '.....'
+        ]);
+
+        expect(codeOf(() => playMove(board, 0, 0, 'white', context()))).toBe('SUICIDE');
+
+        const outcome = playMove(board, 0, 0, 'white', context({ suicideAllowed: true }));
+        expect(outcome.selfCaptured).toEqual([{ x: 0, y: 0 }]);
+        expect(outcome.board[0]?.[0]?.stone).toBeNull();
+    });
+
+    it('allows a move without liberties when it captures', () => {
+        const board = boardFrom([
+            '.XO..',
+            'XO...',
+            '.....',
+            '.....',
+            '.....'
+        ]);
+
+        // White at (0, 0) has no liberties of its own but takes the black stone at (1, 0)
+        const outcome = playMove(board, 0, 0, 'white', context());
+
+        expect(outcome.captured).toEqual([{ x: 1, y: 0 }]);
+        expect(outcome.selfCaptured).toEqual([]);
+        expect(outcome.board[0]?.[0]?.stone).toBe('white');
+    });
+
+    it('marks a single-stone recapture as ko and forbids retaking it immediately', () => {
+        const board = boardFrom([
+            '.XO..',
+            'XO.O.',
+            '.XO..',
+            '.....',
+            '.....'
+        ]);
+
+        const take = playMove(board, 2, 1, 'black', context());
+        expect(take.captured).toEqual([{ x: 1, y: 1 }]);
+        expect(take.koPoint).toEqual({ x: 1, y: 1 });
+
+        const retake = () => playMove(take.board, 1, 1, 'white', context({ koPoint: take.koPoint }));
+        expect(codeOf(retake)).toBe('KO');
+    });
+
+    it('forbids repeating an earlier position under superko', () => {
+        const board = boardFrom([
+            '.XO..',
+            'X.XO.',
+            '.XO..',
+            '.....',
+            '.....'
+        ]);
+
+        // White captures at (1, 1); the position before black's stone at (2, 1) was played is on record
+        const earlier = boardFrom([
+            '.XO..',
+            'XO.O.',
+            '.XO..',
+            '.....',
+            '.....'
+        ]);
+
+        const history = [hashBoard(earlier)];
+        expect(codeOf(() => playMove(board, 1, 1, 'white', context({ koRule: 'superko', positionHashes: history })))).toBe('SUPERKO');
+        expect(codeOf(() => playMove(board, 1, 1, 'white', context({ positionHashes: history })))).toBeUndefined();
+    });
+});
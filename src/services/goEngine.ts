@@ -0,0 +1,247 @@
+import { GameBoardCell, StoneColor, BoardPosition, KoRule, IllegalMoveCode } from '../types';
+
+export type Board = GameBoardCell[][];
+
+// Raised for moves the rules forbid; `code` lets routes report the exact reason
+export class IllegalMoveError extends Error {
+    constructor(public readonly code: IllegalMoveCode, message: string) {
+        super(message);
+        this.name = 'IllegalMoveError';
+    }
+}
+
+export interface StoneGroup {
+    color: StoneColor;
+    stones: BoardPosition[];
+    liberties: BoardPosition[];
+}
+
+export interface MoveContext {
+    suicideAllowed: boolean;
+    koRule: KoRule;
+    koPoint?: BoardPosition | null;
+    positionHashes: string[];
+}
+
+export interface MoveOutcome {
+    board: Board;
+    captured: BoardPosition[];
+    selfCaptured: BoardPosition[];
+    koPoint: BoardPosition | null;
+    positionHash: string;
+}
+
+export const opponentOf = (color: StoneColor): StoneColor => (color === 'black' ? 'white' : 'black');
+
+// Orthogonal neighbours of a point that lie on the board
+export const getAdjacent = (size: number, x: number, y: number): BoardPosition[] => {
+    const points: BoardPosition[] = [];
+    if (x > 0) points.push({ x: x - 1, y });
+    if (x < size - 1) points.push({ x: x + 1, y });
+    if (y > 0) points.push({ x, y: y - 1 });
+    if (y < size - 1) points.push({ x, y: y + 1 });
+    return points;
+};
+
+export const isOnBoard = (size: number, x: number, y: number): boolean =>
+    Number.isInteger(x) && Number.isInteger(y) && x >= 0 && x < size && y >= 0 && y < size;
+
+export const stoneAt = (board: Board, x: number, y: number): StoneColor | null =>
+    board[y]?.[x]?.stone ?? null;
+
+// Create an empty board with liberties already filled in
+export const createEmptyBoard = (size: number): Board =>
+    Array.from({ length: size }, (_row, y) =>
+        Array.from({ length: size }, (_cell, x) => ({
+            stone: null,
+            liberties: getAdjacent(size, x, y).length
+        }))
+    );
+
+// Copy a board into plain objects so it can be mutated freely (stored boards may be Mongoose subdocuments)
+export const cloneBoard = (board: Board): Board =>
+    board.map(row => row.map(cell => {
+        const copy: GameBoardCell = { stone: cell.stone ?? null, liberties: cell.liberties };
+        if (cell.groupId) copy.groupId = cell.groupId;
+        return copy;
+    }));
+
+// Flood fill the chain of stones containing (x, y) and collect its liberties
+export const findGroup = (board: Board, x: number, y: number): StoneGroup | null => {
+    const color = stoneAt(board, x, y);
+    if (!color) return null;
+
+    const size = board.length;
+    const visited = new Set<number>([y * size + x]);
+    const libertySet = new Set<number>();
+    const stones: BoardPosition[] = [];
+    const liberties: BoardPosition[] = [];
+    const stack: BoardPosition[] = [{ x, y }];
+
+    while (stack.length > 0) {
+        const point = stack.pop() as BoardPosition;
+        stones.push(point);
+
+        for (const next of getAdjacent(size, point.x, point.y)) {
+            const index = next.y * size + next.x;
+            const stone = stoneAt(board, next.x, next.y);
+
+            if (stone === null) {
+                if (!libertySet.has(index)) {
+                    libertySet.add(index);
+                    liberties.push(next);
+                }
+            } else if (stone === color && !visited.has(index)) {
+                visited.add(index);
+                stack.push(next);
+            }
+        }
+    }
+
+    return { color, stones, liberties };
+};
+
+const removeStones = (board: Board, stones: BoardPosition[]): void => {
+    stones.forEach(({ x, y }) => {
+        const cell = board[y]?.[x];
+        if (cell) cell.stone = null;
+    });
+};
+
+// Recompute liberties and group ids for every point on the board.
+// Stones carry the liberty count of their whole group; empty points carry their number of empty neighbours.
+export const refreshBoard = (board: Board): Board => {
+    const size = board.length;
+    const seen = new Set<number>();
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const cell = board[y]?.[x];
+            if (!cell) continue;
+
+            if (cell.stone === null) {
+                cell.liberties = getAdjacent(size, x, y).filter(p => stoneAt(board, p.x, p.y) === null).length;
+                delete cell.groupId;
+                continue;
+            }
+
+            if (seen.has(y * size + x)) continue;
+
+            const group = findGroup(board, x, y) as StoneGroup;
+            const groupId = `${group.color}-${x}-${y}`;
+            group.stones.forEach(stone => {
+                seen.add(stone.y * size + stone.x);
+                const member = board[stone.y]?.[stone.x];
+                if (member) {
+                    member.liberties = group.liberties.length;
+                    member.groupId = groupId;
+                }
+            });
+        }
+    }
+
+    return board;
+};
+
+// Zobrist keys are generated from a fixed seed so hashes stay comparable across restarts
+const zobristTables = new Map<number, bigint[]>();
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+const getZobristTable = (size: number): bigint[] => {
+    let table = zobristTables.get(size);
+    if (table) return table;
+
+    // splitmix64
+    let state = BigInt('0x9E3779B97F4A7C15') ^ BigInt(size);
+    const next = (): bigint => {
+        state = (state + BigInt('0x9E3779B97F4A7C15')) & MASK_64;
+        let z = state;
+        z = ((z ^ (z >> BigInt(30))) * BigInt('0xBF58476D1CE4E5B9')) & MASK_64;
+        z = ((z ^ (z >> BigInt(27))) * BigInt('0x94D049BB133111EB')) & MASK_64;
+        return z ^ (z >> BigInt(31));
+    };
+
+    table = Array.from({ length: size * size * 2 }, next);
+    zobristTables.set(size, table);
+    return table;
+};
+
+// Hash of the whole-board position (stones only, side to move is ignored)
+export const hashBoard = (board: Board): string => {
+    const size = board.length;
+    const table = getZobristTable(size);
+    let hash = BigInt(0);
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const stone = stoneAt(board, x, y);
+            if (stone === null) continue;
+            const key = table[(y * size + x) * 2 + (stone === 'black' ? 0 : 1)];
+            if (key !== undefined) hash ^= key;
+        }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+};
+
+// Validate and play a stone for `color`, applying captures, suicide, ko and superko rules.
+// The input board is never mutated.
+export const playMove = (board: Board, x: number, y: number, color: StoneColor, context: MoveContext): MoveOutcome => {
+    const size = board.length;
+
+    if (!isOnBoard(size, x, y)) {
+        throw new IllegalMoveError('INVALID_COORDINATES', 'Invalid coordinates');
+    }
+
+    if (stoneAt(board, x, y) !== null) {
+        throw new IllegalMoveError('OCCUPIED', 'Position already occupied');
+    }
+
+    if (context.koPoint && context.koPoint.x === x && context.koPoint.y === y) {
+        throw new IllegalMoveError('KO', 'Move retakes a ko immediately');
+    }
+
+    const next = cloneBoard(board);
+    (next[y] as GameBoardCell[])[x] = { stone: color, liberties: 0 };
+
+    const captured: BoardPosition[] = [];
+    const checked = new Set<number>();
+
+    for (const point of getAdjacent(size, x, y)) {
+        if (stoneAt(next, point.x, point.y) !== opponentOf(color) || checked.has(point.y * size + point.x)) {
+            continue;
+        }
+
+        const group = findGroup(next, point.x, point.y) as StoneGroup;
+        group.stones.forEach(stone => checked.add(stone.y * size + stone.x));
+
+        if (group.liberties.length === 0) {
+            removeStones(next, group.stones);
+            captured.push(...group.stones);
+        }
+    }
+
+    const ownGroup = findGroup(next, x, y) as StoneGroup;
+    let selfCaptured: BoardPosition[] = [];
+
+    if (ownGroup.liberties.length === 0) {
+        if (!context.suicideAllowed) {
+            throw new IllegalMoveError('SUICIDE', 'Suicide is not allowed');
+        }
+        removeStones(next, ownGroup.stones);
+        selfCaptured = ownGroup.stones;
+    }
+
+    const positionHash = hashBoard(next);
+    if (context.koRule === 'superko' && context.positionHashes.includes(positionHash)) {
+        throw new IllegalMoveError('SUPERKO', 'Move repeats a previous board position');
+    }
+
+    // A single stone capturing a single stone and left in atari creates a ko
+    const capturedOne = captured.length === 1 ? captured[0] : undefined;
+    const koPoint = capturedOne && ownGroup.stones.length === 1 && ownGroup.liberties.length === 1
+        ? { x: capturedOne.x, y: capturedOne.y }
+        : null;
+
+    return { board: refreshBoard(next), captured, selfCaptured, koPoint, positionHash };
+};
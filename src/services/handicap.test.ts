@@ -0,0 +1,84 @@
+import {
+    createHandicapBoard,
+    FAIR_KOMI,
+    firstToMove,
+    getHandicapPoints,
+    HANDICAP_KOMI,
+    MAX_HANDICAP,
+    proposeHandicap
+} from './handicap';
+
+describe('getHandicapPoints', () => {
+    it('places no stones for an even game or a single stone', () => {
+        expect(getHandicapPoints(19, 0)).toEqual([]);
+        expect(getHandicapPoints(19, 1)).toEqual([]);
+    });
+
+    it('starts with opposite corner star points', () => {
+        expect(getHandicapPoints(19, 2)).toEqual([{ x: 15, y: 3 }, { x: 3, y: 15 }]);
+        expect(getHandicapPoints(9, 2)).toEqual([{ x: 6, y: 2 }, { x: 2, y: 6 }]);
+    });
+
+    it('uses tengen only for odd stone counts above four', () => {
+        const centre = { x: 9, y: 9 };
+
+        expect(getHandicapPoints(19, 5)).toContainEqual(centre);
+        expect(getHandicapPoints(19, 6)).not.toContainEqual(centre);
+        expect(getHandicapPoints(19, 6)).toEqual(expect.arrayContaining([{ x: 3, y: 9 }, { x: 15, y: 9 }]));
+        expect(getHandicapPoints(19, 7)).toContainEqual(centre);
+    });
+
+    it('places every stone on a different point, up to the maximum', () => {
+        for (const size of [9, 13, 19]) {
+            for (let stones = 2; stones <= MAX_HANDICAP; stones++) {
+                const points = getHandicapPoints(size, stones);
+                expect(points).toHaveLength(stones);
+                expect(new Set(points.map(p => `${p.x},${p.y}`)).size).toBe(stones);
+            }
+        }
+        expect(getHandicapPoints(19, 12)).toHaveLength(MAX_HANDICAP);
+    });
+});
+
+describe('createHandicapBoard', () => {
+    it('puts black stones on the handicap points only', () => {
+        const board = createHandicapBoard(13, 4);
+        const black = board.flatMap((row, y) => row.flatMap((cell, x) => (cell.stone === 'black' ? [{ x, y }] : [])));
+
+        expect(black).toEqual(expect.arrayContaining(getHandicapPoints(13, 4)));
+        expect(black).toHaveLength(4);
+        expect(board[3]?.[3]?.liberties).toBe(4);
+    });
+});
+
+describe('firstToMove', () => {
+    it('lets white move first once black has handicap stones', () => {
+        expect(firstToMove(0)).toBe('black');
+        expect(firstToMove(1)).toBe('black');
+        expect(firstToMove(3)).toBe('white');
+    });
+});
+
+describe('proposeHandicap', () => {
+    it('proposes an even game with full komi for close ratings', () => {
+        expect(proposeHandicap([1500, 1540], 19)).toEqual({ handicap: 0, komi: FAIR_KOMI, rankGap: 0.4, black: 0 });
+    });
+
+    it('gives black to the weaker player without komi for a one-rank gap', () => {
+        expect(proposeHandicap([1600, 1500], 19)).toEqual({ handicap: 0, komi: HANDICAP_KOMI, rankGap: 1, black: 1 });
+    });
+
+    it('adds a stone per rank beyond that', () => {
+        expect(proposeHandicap([1200, 1540], 19)).toMatchObject({ handicap: 3, komi: HANDICAP_KOMI, black: 0 });
+    });
+
+    it('weighs stones more on smaller boards', () => {
+        expect(proposeHandicap([1500, 1900], 19).handicap).toBe(4);
+        expect(proposeHandicap([1500, 1900], 13).handicap).toBe(2);
+        expect(proposeHandicap([1500, 1900], 9)).toMatchObject({ handicap: 0, komi: HANDICAP_KOMI, rankGap: 1 });
+    });
+
+    it('caps the handicap at the maximum', () => {
+        expect(proposeHandicap([500, 2500], 19)).toMatchObject({ handicap: MAX_HANDICAP, rankGap: 20 });
+    });
+});
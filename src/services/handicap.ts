@@ -0,0 +1,80 @@
+import { BoardPosition, StoneColor } from '../types';
+import { Board, createEmptyBoard, refreshBoard } from './goEngine';
+import { stoneValue } from './rankLadder';
+
+export const MAX_HANDICAP = 9;
+
+// Komi used for handicap games when the creator does not set one
+export const HANDICAP_KOMI = 0.5;
+
+// Komi that makes an even game fair; a handicap stone is worth about twice that
+export const FAIR_KOMI = 6.5;
+
+// Distance of the corner star points from the edge for each board size
+const STAR_POINT_OFFSET: Record<number, number> = { 9: 2, 13: 3, 19: 3 };
+
+// Fixed handicap stone points in the traditional order: opposite corners first, then the
+// remaining corners, the side points and the centre (tengen is only used for odd stone counts).
+export const getHandicapPoints = (size: number, stones: number): BoardPosition[] => {
+    if (stones < 2) return [];
+
+    const edge = STAR_POINT_OFFSET[size] ?? 3;
+    const low = edge;
+    const high = size - 1 - edge;
+    const mid = (size - 1) / 2;
+
+    const topRight = { x: high, y: low };
+    const bottomLeft = { x: low, y: high };
+    const bottomRight = { x: high, y: high };
+    const topLeft = { x: low, y: low };
+    const left = { x: low, y: mid };
+    const right = { x: high, y: mid };
+    const top = { x: mid, y: low };
+    const bottom = { x: mid, y: high };
+    const centre = { x: mid, y: mid };
+
+    const count = Math.min(stones, MAX_HANDICAP);
+    const corners = [topRight, bottomLeft, bottomRight, topLeft].slice(0, Math.min(count, 4));
+
+    if (count <= 4) return corners;
+    if (count === 5) return [...corners, centre];
+    if (count === 6) return [...corners, left, right];
+    if (count === 7) return [...corners, left, right, centre];
+    if (count === 8) return [...corners, left, right, top, bottom];
+    return [...corners, left, right, top, bottom, centre];
+};
+
+// Starting board for a fixed handicap game
+export const createHandicapBoard = (size: number, stones: number): Board => {
+    const board = createEmptyBoard(size);
+    getHandicapPoints(size, stones).forEach(({ x, y }) => {
+        const cell = board[y]?.[x];
+        if (cell) cell.stone = 'black';
+    });
+    return refreshBoard(board);
+};
+
+// White moves first once black's handicap stones are on the board
+export const firstToMove = (stones: number): StoneColor => (stones >= 2 ? 'white' : 'black');
+
+export interface HandicapProposal {
+    handicap: number;
+    komi: number;
+    // Strength difference in stones (ranks on 19x19), before rounding
+    rankGap: number;
+    // Which of the two ratings should take black: the weaker player, or the first when even
+    black: 0 | 1;
+}
+
+// Handicap and komi for two ratings, one stone per rank: an even game with full komi, black
+// without komi for a one-rank gap, and a stone per rank beyond that (with HANDICAP_KOMI)
+export const proposeHandicap = (ratings: [number, number], boardSize: number): HandicapProposal => {
+    const rankGap = Math.abs(ratings[0] - ratings[1]) / stoneValue(boardSize);
+    const stones = Math.min(Math.round(rankGap), MAX_HANDICAP);
+    const black = ratings[1] < ratings[0] ? 1 : 0;
+
+    if (stones === 0) return { handicap: 0, komi: FAIR_KOMI, rankGap, black };
+    if (stones === 1) return { handicap: 0, komi: HANDICAP_KOMI, rankGap, black };
+    return { handicap: stones, komi: HANDICAP_KOMI, rankGap, black };
+};
+
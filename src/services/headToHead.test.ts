@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+import { Match } from '../models/Match';
+import { EndReason, MatchOutcome, StoneColor } from '../types';
+import { summarizeHeadToHead } from './headToHead';
+
+const me = new Types.ObjectId();
+const rival = new Types.ObjectId();
+
+interface GameSpec {
+    // My color; the rival has the other one
+    color: StoneColor;
+    outcome: MatchOutcome;
+    // Who won, for outcome 'win'
+    won?: boolean;
+    endReason?: EndReason;
+    margin?: number;
+    boardSize?: number;
+    status?: string;
+    ratings?: [number, number];
+}
+
+let day = 0;
+const game = (spec: GameSpec) => {
+    day += 1;
+    const rivalColor: StoneColor = spec.color === 'black' ? 'white' : 'black';
+    const winnerColor = spec.outcome === 'win' ? (spec.won ? spec.color : rivalColor) : null;
+    return Match.hydrate({
+        _id: new Types.ObjectId(),
+        matchId: `game-${day}`,
+        players: [
+            {
+                playerId: me,
+                username: 'me',
+                color: spec.color,
+                ...(spec.ratings ? { ratingBefore: spec.ratings[0], ratingAfter: spec.ratings[1] } : {})
+            },
+            { playerId: rival, username: 'rival', color: rivalColor }
+        ],
+        gameSettings: { boardSize: spec.boardSize ?? 19, timeControl: 'Rapid', handicap: 0, komi: 6.5 },
+        gameState: { status: spec.status ?? 'completed' },
+        result: {
+            outcome: spec.outcome,
+            winnerColor,
+            endReason: spec.endReason ?? 'normal',
+            margin: spec.margin ?? 0
+        },
+        metadata: { startTime: new Date(Date.UTC(2024, 0, day)) }
+    });
+};
+
+describe('summarizeHeadToHead', () => {
+    const matches = [
+        game({ color: 'black', outcome: 'win', won: true, margin: 10, boardSize: 9, ratings: [1500, 1510] }),
+        game({ color: 'white', outcome: 'win', won: true, endReason: 'resignation', ratings: [1510, 1518] }),
+        game({ color: 'black', outcome: 'win', won: false, margin: 4, ratings: [1518, 1505.25] }),
+        game({ color: 'white', outcome: 'draw' }),
+        game({ color: 'black', outcome: 'no-result', endReason: 'annulled' }),
+        game({ color: 'white', outcome: 'win', won: false, status: 'active' }),
+        game({ color: 'white', outcome: 'win', won: false, endReason: 'timeout' }),
+        game({ color: 'black', outcome: 'win', won: false, margin: 2 })
+    ];
+    const summary = summarizeHeadToHead(me, rival, matches, 3);
+
+    it('skips games without a result', () => {
+        expect(summary.totalGames).toBe(6);
+        expect(summary.overall).toEqual({ wins: 2, losses: 3, draws: 1 });
+    });
+
+    it('splits the record by color, board size and time control', () => {
+        expect(summary.byColor.black).toEqual({ wins: 1, losses: 2, draws: 0 });
+        expect(summary.byColor.white).toEqual({ wins: 1, losses: 1, draws: 1 });
+        expect(summary.byBoardSize).toEqual({
+            9: { wins: 1, losses: 0, draws: 0 },
+            19: { wins: 1, losses: 3, draws: 1 }
+        });
+        expect(summary.byTimeControl['Rapid']).toEqual(summary.overall);
+    });
+
+    it('averages the margin of counted games, negative for losses', () => {
+        // +10, -4 and -2; resignations, timeouts and draws have no margin
+        expect(summary.averageMargin).toBe(1.3);
+    });
+
+    it('tracks streaks in the order the games were played', () => {
+        expect(summary.longestWinStreak).toBe(2);
+        expect(summary.longestLossStreak).toBe(2);
+        expect(summary.currentStreak).toEqual({ result: 'loss', count: 2 });
+    });
+
+    it('adds up rating changes from rated games', () => {
+        expect(summary.ratingChange).toBe(5.3);
+        expect(summary.recentGames.map(g => g.ratingChange)).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('lists the most recent games first', () => {
+        expect(summary.recentGames.map(g => g.endReason)).toEqual(['normal', 'timeout', 'normal']);
+        expect(summary.recentGames.map(g => g.result)).toEqual(['loss', 'loss', 'draw']);
+    });
+
+    it('returns an empty record when the players never finished a game', () => {
+        const empty = summarizeHeadToHead(me, rival, [], 5);
+
+        expect(empty.totalGames).toBe(0);
+        expect(empty.currentStreak).toEqual({ result: null, count: 0 });
+        expect(empty.ratingChange).toBeNull();
+    });
+});
@@ -0,0 +1,92 @@
+import { Types } from 'mongoose';
+import { GameResult, HeadToHeadGame, HeadToHeadSummary, IMatch, RecordTally } from '../types';
+import { playerResult } from './matchOutcome';
+
+const emptyTally = (): RecordTally => ({ wins: 0, losses: 0, draws: 0 });
+
+const tally = (record: RecordTally, result: GameResult): void => {
+    if (result === 'win') record.wins += 1;
+    else if (result === 'loss') record.losses += 1;
+    else record.draws += 1;
+};
+
+const tallyBy = (groups: Record<string, RecordTally>, key: string, result: GameResult): void => {
+    const record = groups[key] ?? emptyTally();
+    tally(record, result);
+    groups[key] = record;
+};
+
+// Summarize completed matches between two players. `matches` must be in chronological order;
+// games without a result are skipped.
+export const summarizeHeadToHead = (
+    playerId: Types.ObjectId,
+    opponentId: Types.ObjectId,
+    matches: IMatch[],
+    recentLimit: number
+): HeadToHeadSummary => {
+    const summary: HeadToHeadSummary = {
+        playerId,
+        opponentId,
+        totalGames: 0,
+        overall: emptyTally(),
+        byColor: { black: emptyTally(), white: emptyTally() },
+        byBoardSize: {},
+        byTimeControl: {},
+        averageMargin: 0,
+        longestWinStreak: 0,
+        longestLossStreak: 0,
+        currentStreak: { result: null, count: 0 },
+        ratingChange: null,
+        recentGames: []
+    };
+
+    const games: HeadToHeadGame[] = [];
+    let marginTotal = 0;
+    let scoredGames = 0;
+    let ratingChange: number | null = null;
+
+    matches.forEach(match => {
+        const result = playerResult(match, playerId);
+        const player = match.players.find(p => p.playerId?.toString() === playerId.toString());
+        if (!result || !player || !match.result) return;
+
+        summary.totalGames += 1;
+        tally(summary.overall, result);
+        tally(summary.byColor[player.color], result);
+        tallyBy(summary.byBoardSize, String(match.gameSettings.boardSize), result);
+        tallyBy(summary.byTimeControl, match.gameSettings.timeControl, result);
+
+        if (match.result.endReason === 'normal' && result !== 'draw') {
+            marginTotal += result === 'win' ? match.result.margin : -match.result.margin;
+            scoredGames += 1;
+        }
+
+        const streak = summary.currentStreak;
+        streak.count = streak.result === result ? streak.count + 1 : 1;
+        streak.result = result;
+        if (result === 'win') summary.longestWinStreak = Math.max(summary.longestWinStreak, streak.count);
+        if (result === 'loss') summary.longestLossStreak = Math.max(summary.longestLossStreak, streak.count);
+
+        const game: HeadToHeadGame = {
+            matchId: match._id as Types.ObjectId,
+            date: match.metadata.startTime,
+            color: player.color,
+            result,
+            endReason: match.result.endReason,
+            margin: match.result.margin,
+            boardSize: match.gameSettings.boardSize,
+            timeControl: match.gameSettings.timeControl
+        };
+        if (player.ratingBefore !== undefined && player.ratingAfter !== undefined) {
+            game.ratingChange = Math.round((player.ratingAfter - player.ratingBefore) * 10) / 10;
+            ratingChange = (ratingChange ?? 0) + player.ratingAfter - player.ratingBefore;
+        }
+        games.push(game);
+    });
+
+    summary.averageMargin = scoredGames > 0 ? Math.round((marginTotal / scoredGames) * 10) / 10 : 0;
+    summary.ratingChange = ratingChange === null ? null : Math.round(ratingChange * 10) / 10;
+    summary.recentGames = games.slice(-recentLimit).reverse();
+
+    return summary;
+};
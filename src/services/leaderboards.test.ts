@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+import { Player, PlayerDocument } from '../models/Player';
+import { PlayerStats } from '../types';
+import { isMetricAvailable, periodStart, rankStandings } from './leaderboards';
+import { createEmptyStats } from './playerStats';
+
+interface Standing {
+    username: string;
+    stats: Partial<PlayerStats>;
+    rating?: number;
+    ratedGames?: number;
+}
+
+// Standings and players keyed by id, as the refresh builds them from match history
+const board = (standings: Standing[]) => {
+    const stats = new Map<string, PlayerStats>();
+    const players = new Map<string, PlayerDocument>();
+
+    standings.forEach(standing => {
+        const player = Player.hydrate({
+            _id: new Types.ObjectId(),
+            username: standing.username,
+            displayName: standing.username.toUpperCase(),
+            goRank: '5k',
+            glicko: { rating: standing.rating ?? 1500, deviation: 100, volatility: 0.06, ratedGames: standing.ratedGames ?? 0 }
+        });
+        players.set(String(player._id), player);
+        stats.set(String(player._id), { ...createEmptyStats(), ...standing.stats });
+    });
+
+    return { stats, players };
+};
+
+const summary = (entries: ReturnType<typeof rankStandings>) => entries.map(entry => [entry.position, entry.username, entry.value]);
+
+describe('rankStandings', () => {
+    it('shares positions between equal values and orders them by games played, then username', () => {
+        const { stats, players } = board([
+            { username: 'carol', stats: { gamesPlayed: 6, gamesWon: 4 } },
+            { username: 'bob', stats: { gamesPlayed: 5, gamesWon: 4 } },
+            { username: 'alice', stats: { gamesPlayed: 6, gamesWon: 4 } },
+            { username: 'dave', stats: { gamesPlayed: 9, gamesWon: 7 } },
+            { username: 'erin', stats: { gamesPlayed: 3, gamesWon: 2 } }
+        ]);
+
+        expect(summary(rankStandings('wins', 'all-time', stats, players))).toEqual([
+            [1, 'dave', 7],
+            [2, 'alice', 4],
+            [2, 'carol', 4],
+            [2, 'bob', 4],
+            [5, 'erin', 2]
+        ]);
+    });
+
+    it('leaves out players who do not qualify for the board', () => {
+        const { stats, players } = board([
+            { username: 'alice', stats: { gamesPlayed: 3, gamesLost: 3 } },
+            { username: 'bob', stats: { gamesPlayed: 1, gamesWon: 1, bestWinStreak: 1 } }
+        ]);
+
+        expect(summary(rankStandings('wins', 'all-time', stats, players))).toEqual([[1, 'bob', 1]]);
+        expect(summary(rankStandings('streak', 'all-time', stats, players))).toEqual([[1, 'bob', 1]]);
+        expect(summary(rankStandings('activity', 'all-time', stats, players))).toEqual([[1, 'alice', 3], [2, 'bob', 1]]);
+    });
+
+    it('only ranks win rates over enough games for the period', () => {
+        const { stats, players } = board([
+            { username: 'alice', stats: { gamesPlayed: 4, gamesWon: 3 } },
+            { username: 'bob', stats: { gamesPlayed: 12, gamesWon: 6 } }
+        ]);
+
+        expect(summary(rankStandings('winRate', 'all-time', stats, players))).toEqual([[1, 'bob', 50]]);
+        expect(summary(rankStandings('winRate', 'weekly', stats, players))).toEqual([[1, 'alice', 75], [2, 'bob', 50]]);
+    });
+
+    it('ranks rated players by their rounded rating', () => {
+        const { stats, players } = board([
+            { username: 'alice', stats: { gamesPlayed: 2 }, rating: 1612.6, ratedGames: 2 },
+            { username: 'bob', stats: { gamesPlayed: 1 }, rating: 1800 }
+        ]);
+
+        const [entry, ...rest] = rankStandings('rating', 'all-time', stats, players);
+        expect(rest).toHaveLength(0);
+        expect(entry).toMatchObject({ position: 1, username: 'alice', displayName: 'ALICE', goRank: '5k', value: 1613, gamesPlayed: 2 });
+    });
+});
+
+describe('isMetricAvailable', () => {
+    it('only offers rating boards without board size or time control filters', () => {
+        expect(isMetricAvailable('rating', null, null)).toBe(true);
+        expect(isMetricAvailable('rating', 19, null)).toBe(false);
+        expect(isMetricAvailable('rating', null, 'Blitz')).toBe(false);
+        expect(isMetricAvailable('wins', 9, 'Blitz')).toBe(true);
+    });
+});
+
+describe('periodStart', () => {
+    // A Thursday
+    const now = new Date('2024-05-16T18:30:00Z');
+
+    it('starts monthly boards on the first of the month and weekly boards on Monday (UTC)', () => {
+        expect(periodStart('monthly', now)).toEqual(new Date('2024-05-01T00:00:00Z'));
+        expect(periodStart('weekly', now)).toEqual(new Date('2024-05-13T00:00:00Z'));
+        expect(periodStart('weekly', new Date('2024-05-19T23:00:00Z'))).toEqual(new Date('2024-05-13T00:00:00Z'));
+        expect(periodStart('all-time', now)).toBeNull();
+    });
+});
@@ -0,0 +1,261 @@
+import { Document, Types } from 'mongoose';
+import { LeaderboardEntry } from '../models/LeaderboardEntry';
+import { Match } from '../models/Match';
+import { Player, PlayerDocument } from '../models/Player';
+import {
+    ILeaderboardEntry,
+    LeaderboardFilter,
+    LeaderboardMetric,
+    LeaderboardPage,
+    LeaderboardPeriod,
+    PlayerStats,
+    TimeControl
+} from '../types';
+import { FINISHED_MATCH_FILTER, playerResult } from './matchOutcome';
+import { applyGameResult, createEmptyStats } from './playerStats';
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['rating', 'winRate', 'wins', 'points', 'streak', 'activity'];
+
+// Ratings are not kept per board size or time control, so only unfiltered boards rank by rating
+export const isMetricAvailable = (metric: LeaderboardMetric, boardSize: number | null, timeControl: TimeControl | null): boolean =>
+    metric !== 'rating' || (boardSize === null && timeControl === null);
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['all-time', 'monthly', 'weekly'];
+
+// Win rate boards only list players with at least this many games in the period
+export const WIN_RATE_MIN_GAMES: Record<LeaderboardPeriod, number> = { 'all-time': 10, monthly: 5, weekly: 3 };
+
+// Boards are recomputed this often, so they can lag finished games by up to this long
+export const LEADERBOARD_REFRESH_MINUTES = 15;
+const LEADERBOARD_REFRESH_MS = LEADERBOARD_REFRESH_MINUTES * 60 * 1000;
+
+const BOARD_SIZES: (9 | 13 | 19 | null)[] = [null, 9, 13, 19];
+const TIME_CONTROLS: (TimeControl | null)[] = [null, 'None', 'Blitz', 'Rapid', 'Classical'];
+
+type EntryData = Omit<ILeaderboardEntry, keyof Document>;
+
+// An entry before it is tagged with the board it belongs to
+export type RankedEntry = Omit<EntryData, 'metric' | 'period' | 'periodStart' | 'boardSize' | 'timeControl' | 'computedAt'>;
+
+// Start of the month or week (Monday, UTC) containing `now`; null for all-time
+export const periodStart = (period: LeaderboardPeriod, now: Date): Date | null => {
+    if (period === 'monthly') return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    if (period === 'weekly') {
+        const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+    }
+    return null;
+};
+
+const boardKey = (period: LeaderboardPeriod, boardSize: number | null, timeControl: TimeControl | null): string =>
+    `${period}/${boardSize ?? 'all'}/${timeControl ?? 'all'}`;
+
+// A player's value on a board, or null when they do not qualify for it
+const metricValue = (metric: LeaderboardMetric, period: LeaderboardPeriod, stats: PlayerStats, player: PlayerDocument): number | null => {
+    switch (metric) {
+        case 'rating':
+            return player.glicko.ratedGames > 0 ? Math.round(player.glicko.rating) : null;
+        case 'winRate':
+            return stats.gamesPlayed >= WIN_RATE_MIN_GAMES[period]
+                ? Number((stats.gamesWon / stats.gamesPlayed * 100).toFixed(2))
+                : null;
+        case 'wins':
+            return stats.gamesWon > 0 ? stats.gamesWon : null;
+        case 'points':
+            return stats.totalPoints;
+        case 'streak':
+            return stats.bestWinStreak > 0 ? stats.bestWinStreak : null;
+        case 'activity':
+            return stats.gamesPlayed;
+    }
+};
+
+// Entries for one board, best first. Equal values share a position; among them players with
+// more games come first, then by username.
+export const rankStandings = (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    standings: Map<string, PlayerStats>,
+    players: Map<string, PlayerDocument>
+): RankedEntry[] => {
+    const rows = [...standings].flatMap(([id, stats]) => {
+        const player = players.get(id);
+        const value = player ? metricValue(metric, period, stats, player) : null;
+        return player && value !== null ? [{ player, stats, value }] : [];
+    });
+
+    rows.sort((a, b) =>
+        b.value - a.value ||
+        b.stats.gamesPlayed - a.stats.gamesPlayed ||
+        a.player.username.localeCompare(b.player.username));
+
+    let position = 0;
+    return rows.map((row, i) => {
+        if (i === 0 || row.value !== rows[i - 1]?.value) position = i + 1;
+        return {
+            position,
+            playerId: row.player._id as Types.ObjectId,
+            username: row.player.username,
+            displayName: row.player.displayName,
+            goRank: row.player.goRank,
+            value: row.value,
+            gamesPlayed: row.stats.gamesPlayed,
+            gamesWon: row.stats.gamesWon
+        };
+    });
+};
+
+// Replay every finished match in the order the games ended into per-board stats for each
+// period, board size and time control, including the boards that cover all of them
+const collectStandings = async (starts: Map<LeaderboardPeriod, Date | null>): Promise<Map<string, Map<string, PlayerStats>>> => {
+    const boards = new Map<string, Map<string, PlayerStats>>();
+
+    const matches = Match.find(FINISHED_MATCH_FILTER)
+        .select('players result gameSettings metadata')
+        .sort({ 'metadata.endTime': 1, 'metadata.startTime': 1, _id: 1 })
+        .cursor();
+
+    for await (const match of matches) {
+        const endedAt = match.metadata.endTime ?? match.metadata.startTime;
+        const { boardSize, timeControl } = match.gameSettings;
+
+        const keys = LEADERBOARD_PERIODS
+            .filter(period => {
+                const start = starts.get(period);
+                return !start || (endedAt !== undefined && endedAt >= start);
+            })
+            .flatMap(period => [null, boardSize].flatMap(size => [null, timeControl].map(tc => boardKey(period, size, tc))));
+
+        for (const matchPlayer of match.players) {
+            if (!matchPlayer.playerId) continue;
+
+            const gameResult = playerResult(match, matchPlayer.playerId);
+            if (!gameResult) continue;
+
+            const id = matchPlayer.playerId.toString();
+            keys.forEach(key => {
+                const board = boards.get(key) ?? new Map<string, PlayerStats>();
+                const stats = board.get(id) ?? createEmptyStats();
+                applyGameResult(stats, gameResult, matchPlayer.finalScore || 0);
+                board.set(id, stats);
+                boards.set(key, board);
+            });
+        }
+    }
+
+    return boards;
+};
+
+// Recompute every board from match history and swap the new entries in once they are all written,
+// so readers always see one complete computation. Returns the number of entries written.
+const rebuildLeaderboards = async (now: Date): Promise<number> => {
+    const computedAt = new Date();
+    const starts = new Map(LEADERBOARD_PERIODS.map(period => [period, periodStart(period, now)]));
+    const boards = await collectStandings(starts);
+
+    const ids = new Set([...boards.values()].flatMap(board => [...board.keys()]));
+    const players = new Map((await Player.find({ _id: { $in: [...ids] } }).select('username displayName goRank glicko'))
+        .map(player => [String(player._id), player]));
+
+    let written = 0;
+    for (const period of LEADERBOARD_PERIODS) {
+        for (const boardSize of BOARD_SIZES) {
+            for (const timeControl of TIME_CONTROLS) {
+                const standings = boards.get(boardKey(period, boardSize, timeControl));
+                if (!standings) continue;
+
+                for (const metric of LEADERBOARD_METRICS) {
+                    if (!isMetricAvailable(metric, boardSize, timeControl)) continue;
+
+                    const entries: EntryData[] = rankStandings(metric, period, standings, players).map(entry => ({
+                        ...entry,
+                        metric,
+                        period,
+                        periodStart: starts.get(period) ?? null,
+                        boardSize,
+                        timeControl,
+                        computedAt
+                    }));
+                    if (entries.length === 0) continue;
+
+                    await LeaderboardEntry.insertMany(entries, { lean: true });
+                    written += entries.length;
+                }
+            }
+        }
+    }
+
+    await LeaderboardEntry.deleteMany({ computedAt: { $lt: computedAt } });
+    return written;
+};
+
+let running: Promise<number> | null = null;
+
+// Rebuild the boards, one rebuild at a time: a refresh requested while one is running (by the
+// scheduler or an administrator) waits for that one instead of writing entries alongside it
+export const refreshLeaderboards = (now: Date = new Date()): Promise<number> => {
+    if (!running) {
+        running = rebuildLeaderboards(now).finally(() => {
+            running = null;
+        });
+    }
+    return running;
+};
+
+// One page of a board from its latest complete computation, plus `playerId`'s own entry if they are on it
+export const getLeaderboard = async (
+    filter: LeaderboardFilter,
+    options: { page: number; limit: number; playerId?: Types.ObjectId }
+): Promise<LeaderboardPage> => {
+    const board = {
+        metric: filter.metric,
+        period: filter.period,
+        boardSize: filter.boardSize ?? null,
+        timeControl: filter.timeControl ?? null
+    };
+
+    // While a refresh is being written the previous computation is still complete, and it is the
+    // oldest one left until the refresh removes it
+    const current = await LeaderboardEntry.findOne(board).sort({ computedAt: 1 }).select('computedAt periodStart');
+    if (!current) {
+        return { filter, periodStart: periodStart(filter.period, new Date()), computedAt: null, total: 0, entries: [], player: null };
+    }
+
+    const query = { ...board, computedAt: current.computedAt };
+    const [entries, total, player] = await Promise.all([
+        LeaderboardEntry.find(query)
+            .sort({ position: 1, _id: 1 })
+            .skip((options.page - 1) * options.limit)
+            .limit(options.limit),
+        LeaderboardEntry.countDocuments(query),
+        options.playerId ? LeaderboardEntry.findOne({ ...query, playerId: options.playerId }) : null
+    ]);
+
+    return { filter, periodStart: current.periodStart, computedAt: current.computedAt, total, entries, player };
+};
+
+let timer: NodeJS.Timeout | undefined;
+
+// Compute the boards now and every LEADERBOARD_REFRESH_MINUTES after; call once the database is connected
+export const startLeaderboardScheduler = async (): Promise<number> => {
+    const scheduleNext = (): void => {
+        timer = setTimeout(() => {
+            refreshLeaderboards()
+                .catch(error => console.error('Leaderboard refresh error:', error))
+                .finally(scheduleNext);
+        }, LEADERBOARD_REFRESH_MS);
+        timer.unref();
+    };
+
+    // Keep the schedule even if the first build fails
+    try {
+        return await refreshLeaderboards();
+    } finally {
+        scheduleNext();
+    }
+};
+
+export const stopLeaderboardScheduler = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+};
@@ -0,0 +1,194 @@
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { Match, MatchDocument } from '../models/Match';
+import {
+    ActivityInterval,
+    ActivityPoint,
+    AnalyticsFilter,
+    ColorWinRate,
+    EndReason,
+    EndReasonCount,
+    GameLengthBucket,
+    GameLengthMeasure,
+    PeakConcurrency,
+    StoneColor
+} from '../types';
+import { FINISHED_MATCH_FILTER } from './matchOutcome';
+
+export const ACTIVITY_INTERVALS: ActivityInterval[] = ['day', 'week', 'month'];
+
+// Lower bounds of the game length histogram buckets; the last bucket is open-ended
+export const GAME_LENGTH_BOUNDARIES: Record<GameLengthMeasure, number[]> = {
+    moves: [0, 50, 100, 150, 200, 250, 300],
+    duration: [0, 5, 10, 20, 30, 60, 120] // minutes
+};
+
+const GAME_LENGTH_FIELDS: Record<GameLengthMeasure, string> = {
+    moves: 'gameState.moveCount',
+    duration: 'metadata.duration'
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Date range applies to when the match started
+export const buildAnalyticsMatch = (filter: AnalyticsFilter): FilterQuery<MatchDocument> => {
+    const match: FilterQuery<MatchDocument> = {};
+
+    if (filter.boardSize) match['gameSettings.boardSize'] = filter.boardSize;
+
+    if (filter.startDate || filter.endDate) {
+        match['metadata.startTime'] = {};
+        if (filter.startDate) match['metadata.startTime'].$gte = filter.startDate;
+        if (filter.endDate) match['metadata.startTime'].$lte = filter.endDate;
+    }
+
+    return match;
+};
+
+// Finished matches, annulled ones included; games still being played are left out
+const finished = (filter: AnalyticsFilter): FilterQuery<MatchDocument> => ({
+    ...buildAnalyticsMatch(filter),
+    ...FINISHED_MATCH_FILTER
+});
+
+// Matches started per day, week or month; periods without games are left out
+export const getActivity = async (filter: AnalyticsFilter, interval: ActivityInterval): Promise<ActivityPoint[]> => {
+    const rows = await Match.aggregate<{ _id: Date; games: number }>([
+        { $match: { 'metadata.startTime': { $exists: true }, ...buildAnalyticsMatch(filter) } },
+        {
+            $group: {
+                _id: { $dateTrunc: { date: '$metadata.startTime', unit: interval, startOfWeek: 'monday' } },
+                games: { $sum: 1 }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    return rows.map(row => ({ period: row._id, games: row.games }));
+};
+
+// Highest number of matches in progress at the same moment. Each match is an interval from its
+// start to its end (now for games still being played); ends sort before starts at the same instant.
+export const getPeakConcurrency = async (filter: AnalyticsFilter): Promise<PeakConcurrency> => {
+    const pipeline: PipelineStage[] = [
+        {
+            $match: {
+                'metadata.startTime': { $exists: true },
+                ...buildAnalyticsMatch(filter),
+                $or: [{ 'metadata.endTime': { $exists: true } }, { 'gameState.status': 'active' }]
+            }
+        },
+        {
+            $project: {
+                _id: 0,
+                events: [
+                    { at: '$metadata.startTime', change: 1 },
+                    { at: { $ifNull: ['$metadata.endTime', '$$NOW'] }, change: -1 }
+                ]
+            }
+        },
+        { $unwind: '$events' },
+        { $replaceRoot: { newRoot: '$events' } },
+        {
+            $setWindowFields: {
+                sortBy: { at: 1, change: 1 },
+                output: { running: { $sum: '$change', window: { documents: ['unbounded', 'current'] } } }
+            }
+        },
+        { $sort: { running: -1, at: 1 } },
+        { $limit: 1 }
+    ];
+
+    const [top] = await Match.aggregate<{ at: Date; running: number }>(pipeline);
+    return top ? { peak: top.running, at: top.at } : { peak: 0, at: null };
+};
+
+// Histogram of finished games by number of moves or duration, every bucket included
+export const getGameLengthDistribution = async (filter: AnalyticsFilter, measure: GameLengthMeasure): Promise<GameLengthBucket[]> => {
+    const boundaries = GAME_LENGTH_BOUNDARIES[measure];
+    const field = GAME_LENGTH_FIELDS[measure];
+
+    const rows = await Match.aggregate<{ _id: number; games: number }>([
+        { $match: { ...finished(filter), [field]: { $type: 'number', $gte: 0 } } },
+        {
+            $bucket: {
+                groupBy: `$${field}`,
+                boundaries: [...boundaries, Number.MAX_SAFE_INTEGER],
+                output: { games: { $sum: 1 } }
+            }
+        }
+    ]);
+
+    const counts = new Map(rows.map(row => [row._id, row.games]));
+    return boundaries.map((min, i) => ({
+        min,
+        max: boundaries[i + 1] ?? null,
+        games: counts.get(min) ?? 0
+    }));
+};
+
+// Black and white win rates per board size over decided and drawn games. Older records without
+// a winner color take it from the winning player's entry.
+export const getColorWinRates = async (filter: AnalyticsFilter): Promise<ColorWinRate[]> => {
+    const winnerColor = {
+        $ifNull: [
+            '$result.winnerColor',
+            {
+                $cond: [
+                    { $ifNull: ['$result.winner', false] },
+                    {
+                        $arrayElemAt: [{
+                            $map: {
+                                input: { $filter: { input: '$players', cond: { $eq: ['$$this.playerId', '$result.winner'] } } },
+                                in: '$$this.color'
+                            }
+                        }, 0]
+                    },
+                    null
+                ]
+            }
+        ]
+    };
+    const won = (color: StoneColor) => ({
+        $cond: [{ $and: [{ $ne: ['$result.outcome', 'draw'] }, { $eq: ['$winnerColor', color] }] }, 1, 0]
+    });
+
+    const rows = await Match.aggregate<{ _id: number; games: number; blackWins: number; whiteWins: number }>([
+        { $match: { ...finished(filter), 'result.outcome': { $ne: 'no-result' } } },
+        { $project: { boardSize: '$gameSettings.boardSize', result: 1, winnerColor } },
+        {
+            $group: {
+                _id: '$boardSize',
+                games: { $sum: 1 },
+                blackWins: { $sum: won('black') },
+                whiteWins: { $sum: won('white') }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    return rows.map(row => ({
+        boardSize: row._id,
+        games: row.games,
+        blackWins: row.blackWins,
+        whiteWins: row.whiteWins,
+        draws: row.games - row.blackWins - row.whiteWins,
+        blackWinRate: round(row.blackWins / row.games * 100),
+        whiteWinRate: round(row.whiteWins / row.games * 100)
+    }));
+};
+
+// How finished games ended: resignation, timeout, counting, abandonment or annulment
+export const getEndReasonBreakdown = async (filter: AnalyticsFilter): Promise<EndReasonCount[]> => {
+    const rows = await Match.aggregate<{ _id: EndReason; games: number }>([
+        { $match: finished(filter) },
+        { $group: { _id: '$result.endReason', games: { $sum: 1 } } },
+        { $sort: { games: -1 } }
+    ]);
+
+    const total = rows.reduce((sum, row) => sum + row.games, 0);
+    return rows.map(row => ({
+        endReason: row._id,
+        games: row.games,
+        percentage: total > 0 ? round(row.games / total * 100) : 0
+    }));
+};
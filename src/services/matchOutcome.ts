@@ -0,0 +1,37 @@
+import { FilterQuery, Types } from 'mongoose';
+import { MatchDocument } from '../models/Match';
+import { GameResult, IMatch, MatchOutcome } from '../types';
+
+// Completed matches with a recorded result: an outcome, or for records written before outcomes
+// were stored, a winner. Every match has a default endReason, so that says nothing about whether
+// it has finished; games still being played and completed ones without a result are left out.
+export const FINISHED_MATCH_FILTER: FilterQuery<MatchDocument> = {
+    'gameState.status': 'completed',
+    'metadata.countsForStats': { $ne: false },
+    $or: [{ 'result.outcome': { $exists: true } }, { 'result.winner': { $exists: true } }]
+};
+
+// Result recorded for a completed match, including records written before outcomes were stored;
+// null when the match has not finished or has no result. Kept even for history-only matches.
+export const recordedOutcome = (match: IMatch): MatchOutcome | null => {
+    const result = match.result;
+    if (match.gameState?.status !== 'completed' || !result) return null;
+    if (result.outcome) return result.outcome;
+    return result.winner ? 'win' : null;
+};
+
+// Outcome of a finished match for stats; null when it has no result or is kept for history only
+export const outcomeOf = (match: IMatch): MatchOutcome | null =>
+    match.metadata?.countsForStats === false ? null : recordedOutcome(match);
+
+// How a match ended for one of its players; null for no-result games and players not in the match
+export const playerResult = (match: IMatch, playerId: Types.ObjectId | string): GameResult | null => {
+    const player = match.players.find(p => p.playerId?.toString() === playerId.toString());
+    const outcome = outcomeOf(match);
+    if (!player || !outcome || outcome === 'no-result') return null;
+    if (outcome === 'draw') return 'draw';
+
+    const result = match.result;
+    if (result?.winnerColor) return result.winnerColor === player.color ? 'win' : 'loss';
+    return result?.winner?.toString() === playerId.toString() ? 'win' : 'loss';
+};
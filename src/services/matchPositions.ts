@@ -0,0 +1,114 @@
+import { Match, MatchDocument } from '../models/Match';
+import { MatchPosition, PositionSnapshot } from '../types';
+import { Board, createEmptyBoard, hashBoard, refreshBoard } from './goEngine';
+import { applyMove, createInitialState, ReplayMove, ReplaySetup, ReplayState } from './gameReplay';
+
+// Moves between cached snapshots; a position is at most this many moves away from one
+export const SNAPSHOT_INTERVAL = 25;
+
+const STONE_CODES = { black: 'b', white: 'w' } as const;
+
+export const encodeBoard = (board: Board): string =>
+    board.map(row => row.map(cell => (cell.stone ? STONE_CODES[cell.stone] : '.')).join('')).join('');
+
+export const decodeBoard = (encoded: string, size: number): Board => {
+    const board = createEmptyBoard(size);
+    for (let i = 0; i < size * size; i++) {
+        const cell = board[Math.floor(i / size)]?.[i % size];
+        const code = encoded[i];
+        if (cell && code === 'b') cell.stone = 'black';
+        if (cell && code === 'w') cell.stone = 'white';
+    }
+    return refreshBoard(board);
+};
+
+export const replaySetupFor = (match: MatchDocument): ReplaySetup => ({
+    boardSize: match.gameSettings.boardSize,
+    handicap: match.gameSettings.handicap,
+    handicapPlacement: match.gameSettings.handicapPlacement ?? 'fixed',
+    suicideAllowed: match.gameRules?.suicideAllowed ?? false,
+    koRule: match.gameRules?.koRule ?? 'standard'
+});
+
+const replayMovesOf = (match: MatchDocument): ReplayMove[] =>
+    match.moves.map(m => ({ color: m.color, x: m.x, y: m.y, pass: Boolean(m.pass) }));
+
+const toSnapshot = (state: ReplayState): PositionSnapshot => ({
+    moveNumber: state.movesPlayed,
+    board: encodeBoard(state.board),
+    capturedStones: { black: state.capturedStones.black, white: state.capturedStones.white },
+    koPoint: state.koPoint ? { x: state.koPoint.x, y: state.koPoint.y } : null,
+    currentTurn: state.currentTurn,
+    moveCount: state.moveCount,
+    consecutivePasses: state.consecutivePasses
+});
+
+// Resume a replay from a snapshot. Earlier position hashes are not kept: the stored moves were
+// validated when played, so a shorter superko history can only make the replay more lenient.
+const fromSnapshot = (snapshot: PositionSnapshot, size: number): ReplayState => {
+    const board = decodeBoard(snapshot.board, size);
+    const ko = snapshot.koPoint;
+
+    return {
+        board,
+        capturedStones: { black: snapshot.capturedStones.black, white: snapshot.capturedStones.white },
+        koPoint: ko && typeof ko.x === 'number' && typeof ko.y === 'number' ? { x: ko.x, y: ko.y } : null,
+        positionHashes: [hashBoard(board)],
+        currentTurn: snapshot.currentTurn,
+        moveCount: snapshot.moveCount,
+        consecutivePasses: snapshot.consecutivePasses,
+        movesPlayed: snapshot.moveNumber,
+        lastMove: null,
+        capturedByMove: []
+    };
+};
+
+// Replay the whole game once, keeping a snapshot every SNAPSHOT_INTERVAL moves
+export const buildSnapshots = (match: MatchDocument): PositionSnapshot[] => {
+    const setup = replaySetupFor(match);
+    const snapshots: PositionSnapshot[] = [];
+
+    replayMovesOf(match).reduce((state, move) => {
+        const next = applyMove(state, move, setup);
+        if (next.movesPlayed % SNAPSHOT_INTERVAL === 0) snapshots.push(toSnapshot(next));
+        return next;
+    }, createInitialState(setup));
+
+    return snapshots;
+};
+
+// Snapshots stored for a match, rebuilding and saving them when missing or out of date
+const loadSnapshots = async (match: MatchDocument): Promise<PositionSnapshot[]> => {
+    const stored = match.positionSnapshots ?? [];
+    if (stored.length === Math.floor(match.moves.length / SNAPSHOT_INTERVAL)) return stored;
+
+    const snapshots = buildSnapshots(match);
+    await Match.updateOne({ _id: match._id }, { $set: { positionSnapshots: snapshots } });
+    return snapshots;
+};
+
+// Board, prisoners, ko point and side to move after `moveNumber` moves (passes count as moves).
+// Illegal stored moves throw IllegalMoveError from the engine.
+export const getPositionAtMove = async (match: MatchDocument, moveNumber: number): Promise<MatchPosition> => {
+    const setup = replaySetupFor(match);
+    const snapshots = await loadSnapshots(match);
+
+    const snapshot = [...snapshots].reverse().find(s => s.moveNumber <= moveNumber);
+    const start = snapshot ? fromSnapshot(snapshot, setup.boardSize) : createInitialState(setup);
+
+    const state = replayMovesOf(match)
+        .slice(start.movesPlayed, moveNumber)
+        .reduce((current, move) => applyMove(current, move, setup), start);
+
+    const lastMove = moveNumber > 0 ? match.moves[moveNumber - 1] : undefined;
+
+    return {
+        moveNumber,
+        totalMoves: match.moves.length,
+        board: state.board.map(row => row.map(cell => ({ stone: cell.stone, liberties: cell.liberties }))),
+        capturedStones: state.capturedStones,
+        koPoint: state.koPoint,
+        currentTurn: state.currentTurn,
+        lastMove: lastMove ?? null
+    };
+};
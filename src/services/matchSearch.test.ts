@@ -0,0 +1,84 @@
+import { Types } from 'mongoose';
+import { Match } from '../models/Match';
+import { buildMatchFilter, encodeCursor, InvalidCursorError, paginateMatches } from './matchSearch';
+
+const stored = (id: Types.ObjectId, startTime: Date, margin?: number) => Match.hydrate({
+    _id: id,
+    matchId: String(id),
+    metadata: { startTime },
+    ...(margin === undefined ? {} : { result: { margin } })
+});
+
+describe('paginateMatches', () => {
+    const id = new Types.ObjectId();
+    const startTime = new Date('2024-03-01T12:00:00Z');
+
+    it('sorts on the field with _id as a tie-breaker and skips matches without a value', () => {
+        const page = paginateMatches({ 'gameSettings.boardSize': 19 }, 'margin', 'desc');
+
+        expect(page.sort).toEqual({ 'result.margin': -1, _id: -1 });
+        expect(page.filter).toEqual({
+            $and: [
+                { 'gameSettings.boardSize': 19 },
+                { 'result.margin': { $exists: true, $ne: null } }
+            ]
+        });
+    });
+
+    it('continues after the last match of the previous page, newest first', () => {
+        const cursor = encodeCursor(stored(id, startTime), 'date');
+        const page = paginateMatches({}, 'date', 'desc', cursor);
+
+        expect(page.filter['$and']?.[2]).toEqual({
+            $or: [
+                { 'metadata.startTime': { $lt: startTime } },
+                { 'metadata.startTime': startTime, _id: { $lt: id } }
+            ]
+        });
+    });
+
+    it('continues upwards when sorting in ascending order', () => {
+        const cursor = encodeCursor(stored(id, startTime, 4.5), 'margin');
+        const page = paginateMatches({}, 'margin', 'asc', cursor);
+
+        expect(page.sort).toEqual({ 'result.margin': 1, _id: 1 });
+        expect(page.filter['$and']?.[2]).toEqual({
+            $or: [
+                { 'result.margin': { $gt: 4.5 } },
+                { 'result.margin': 4.5, _id: { $gt: id } }
+            ]
+        });
+    });
+
+    it('rejects cursors it did not produce', () => {
+        expect(() => paginateMatches({}, 'date', 'desc', 'not-a-cursor')).toThrow(InvalidCursorError);
+
+        const forged = Buffer.from(JSON.stringify({ value: 'yesterday', id: 'nope' })).toString('base64url');
+        expect(() => paginateMatches({}, 'date', 'desc', forged)).toThrow(InvalidCursorError);
+    });
+});
+
+describe('buildMatchFilter', () => {
+    it('matches games between two players in either color', () => {
+        const playerId = new Types.ObjectId();
+        const opponentId = new Types.ObjectId();
+
+        expect(buildMatchFilter({ playerId: String(playerId), opponentId: String(opponentId) }))
+            .toEqual({ 'players.playerId': { $all: [playerId, opponentId] } });
+    });
+
+    it('requires both players to be inside the rank band', () => {
+        expect(buildMatchFilter({ minRank: 'Advanced' })).toEqual({
+            players: { $not: { $elemMatch: { rank: { $nin: ['Advanced', 'Expert', 'Master'] } } } }
+        });
+    });
+
+    it('requires both players to have a rating inside the rating band', () => {
+        expect(buildMatchFilter({ minRating: 1400, maxRating: 1800 })).toEqual({
+            $and: [
+                { 'players.ratingBefore': { $exists: true } },
+                { players: { $not: { $elemMatch: { ratingBefore: { $not: { $gte: 1400, $lte: 1800 } } } } } }
+            ]
+        });
+    });
+});
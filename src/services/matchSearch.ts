@@ -0,0 +1,152 @@
+import { FilterQuery, SortOrder, Types } from 'mongoose';
+import { MatchDocument } from '../models/Match';
+import { PlayerRank } from '../types';
+
+export const PLAYER_RANKS: PlayerRank[] = ['Beginner', 'Intermediate', 'Advanced', 'Expert', 'Master'];
+
+// Sort keys accepted by the search, mapped to the Match field they sort on
+export const MATCH_SORT_FIELDS = {
+    date: 'metadata.startTime',
+    duration: 'metadata.duration',
+    margin: 'result.margin'
+} as const;
+
+export type MatchSortKey = keyof typeof MATCH_SORT_FIELDS;
+
+export interface MatchSearchOptions {
+    status?: string;
+    playerId?: string;
+    // With playerId, only games between the two players
+    opponentId?: string;
+    boardSize?: number;
+    timeControl?: string;
+    handicap?: number;
+    endReason?: string;
+    winnerColor?: string;
+    minMoves?: number;
+    maxMoves?: number;
+    // Both players' ranks at game time must fall inside the band
+    minRank?: PlayerRank;
+    maxRank?: PlayerRank;
+    // Both players' ratings going into the game must fall inside the band
+    minRating?: number;
+    maxRating?: number;
+    startDate?: string;
+    endDate?: string;
+}
+
+interface MatchCursor {
+    value: string | number;
+    id: string;
+}
+
+// Raised for cursors that were not produced by this search
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Invalid pagination cursor');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+export const buildMatchFilter = (options: MatchSearchOptions): FilterQuery<MatchDocument> => {
+    const filter: FilterQuery<MatchDocument> = {};
+
+    if (options.status) filter['gameState.status'] = options.status;
+
+    if (options.playerId && options.opponentId) {
+        filter['players.playerId'] = { $all: [new Types.ObjectId(options.playerId), new Types.ObjectId(options.opponentId)] };
+    } else if (options.playerId) {
+        filter['players.playerId'] = new Types.ObjectId(options.playerId);
+    }
+
+    if (options.boardSize) filter['gameSettings.boardSize'] = options.boardSize;
+    if (options.timeControl) filter['gameSettings.timeControl'] = options.timeControl;
+    if (options.handicap !== undefined) filter['gameSettings.handicap'] = options.handicap;
+    if (options.endReason) filter['result.endReason'] = options.endReason;
+    if (options.winnerColor) filter['result.winnerColor'] = options.winnerColor;
+
+    if (options.minMoves !== undefined || options.maxMoves !== undefined) {
+        filter['gameState.moveCount'] = {};
+        if (options.minMoves !== undefined) filter['gameState.moveCount'].$gte = options.minMoves;
+        if (options.maxMoves !== undefined) filter['gameState.moveCount'].$lte = options.maxMoves;
+    }
+
+    if (options.minRank || options.maxRank) {
+        const low = options.minRank ? PLAYER_RANKS.indexOf(options.minRank) : 0;
+        const high = options.maxRank ? PLAYER_RANKS.indexOf(options.maxRank) : PLAYER_RANKS.length - 1;
+        // No player may be outside the band (matches without recorded ranks are excluded)
+        filter.players = { $not: { $elemMatch: { rank: { $nin: PLAYER_RANKS.slice(low, high + 1) } } } };
+    }
+
+    if (options.minRating !== undefined || options.maxRating !== undefined) {
+        const band: Record<string, number> = {};
+        if (options.minRating !== undefined) band['$gte'] = options.minRating;
+        if (options.maxRating !== undefined) band['$lte'] = options.maxRating;
+        // ratingBefore is stored once a match is rated, so unrated matches are excluded too
+        filter.$and = [
+            { 'players.ratingBefore': { $exists: true } },
+            { players: { $not: { $elemMatch: { ratingBefore: { $not: band } } } } }
+        ];
+    }
+
+    if (options.startDate || options.endDate) {
+        filter['metadata.startTime'] = {};
+        if (options.startDate) filter['metadata.startTime'].$gte = new Date(options.startDate);
+        if (options.endDate) filter['metadata.startTime'].$lte = new Date(options.endDate);
+    }
+
+    return filter;
+};
+
+export const encodeCursor = (match: MatchDocument, sort: MatchSortKey): string => {
+    const value = match.get(MATCH_SORT_FIELDS[sort]);
+    const cursor: MatchCursor = {
+        value: value instanceof Date ? value.toISOString() : Number(value),
+        id: String(match._id)
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string, sort: MatchSortKey): { value: Date | number; id: Types.ObjectId } => {
+    try {
+        const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as MatchCursor;
+        const value = sort === 'date' ? new Date(parsed.value) : Number(parsed.value);
+
+        if (!Types.ObjectId.isValid(parsed.id) || Number.isNaN(value.valueOf())) {
+            throw new InvalidCursorError();
+        }
+
+        return { value, id: new Types.ObjectId(parsed.id) };
+    } catch (error) {
+        throw new InvalidCursorError();
+    }
+};
+
+// Keyset pagination: sort on the chosen field with _id as a tie-breaker and continue after the cursor.
+// Matches without a value for the sort field (e.g. no margin yet) are left out when sorting by it.
+export const paginateMatches = (
+    filter: FilterQuery<MatchDocument>,
+    sort: MatchSortKey,
+    order: 'asc' | 'desc',
+    cursor?: string
+): { filter: FilterQuery<MatchDocument>; sort: Record<string, SortOrder> } => {
+    const field = MATCH_SORT_FIELDS[sort];
+    const direction = order === 'asc' ? 1 : -1;
+    const conditions: FilterQuery<MatchDocument>[] = [filter, { [field]: { $exists: true, $ne: null } }];
+
+    if (cursor) {
+        const after = decodeCursor(cursor, sort);
+        const beyond = direction === 1 ? '$gt' : '$lt';
+        conditions.push({
+            $or: [
+                { [field]: { [beyond]: after.value } },
+                { [field]: after.value, _id: { [beyond]: after.id } }
+            ]
+        });
+    }
+
+    return {
+        filter: { $and: conditions },
+        sort: { [field]: direction, _id: direction }
+    };
+};
@@ -0,0 +1,106 @@
+import { GameResult, IMatch, PlayerStats, StatsBucket, StatsCategory, StatsSlice, StoneColor } from '../types';
+
+export type StatsFilter = Partial<StatsCategory>;
+
+export const categoryOf = (match: IMatch, color: StoneColor): StatsCategory => ({
+    boardSize: match.gameSettings.boardSize,
+    timeControl: match.gameSettings.timeControl,
+    color
+});
+
+export const createEmptyStats = (): PlayerStats => ({
+    gamesPlayed: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gamesDrawn: 0,
+    totalPoints: 0,
+    averagePoints: 0,
+    winStreak: 0,
+    currentStreak: 0,
+    currentLossStreak: 0,
+    bestWinStreak: 0,
+    buckets: []
+});
+
+const sameCategory = (a: StatsCategory, b: StatsCategory): boolean =>
+    a.boardSize === b.boardSize && a.timeControl === b.timeControl && a.color === b.color;
+
+const addResult = (bucket: StatsBucket, gameResult: GameResult, points: number): void => {
+    bucket.gamesPlayed += 1;
+    bucket.totalPoints += points;
+    if (gameResult === 'win') bucket.gamesWon += 1;
+    else if (gameResult === 'loss') bucket.gamesLost += 1;
+    else bucket.gamesDrawn += 1;
+};
+
+// Count one finished game into `stats` in place. Works on plain objects and on a player
+// document's stats, whose bucket array casts pushed entries into subdocuments.
+export const applyGameResult = (stats: PlayerStats, gameResult: GameResult, points: number, category?: StatsCategory): void => {
+    stats.gamesPlayed += 1;
+    stats.totalPoints += points;
+
+    if (gameResult === 'win') {
+        stats.gamesWon += 1;
+        stats.winStreak += 1;
+        stats.currentStreak = stats.winStreak;
+        stats.currentLossStreak = 0;
+        stats.bestWinStreak = Math.max(stats.bestWinStreak, stats.winStreak);
+    } else if (gameResult === 'loss') {
+        stats.gamesLost += 1;
+        stats.winStreak = 0;
+        stats.currentStreak = 0;
+        stats.currentLossStreak += 1;
+    } else {
+        stats.gamesDrawn += 1;
+        stats.winStreak = 0;
+        stats.currentStreak = 0;
+        stats.currentLossStreak = 0;
+    }
+
+    stats.averagePoints = stats.totalPoints / stats.gamesPlayed;
+
+    if (category) {
+        if (!stats.buckets) stats.buckets = [];
+        const buckets = stats.buckets;
+        let bucket = buckets.find(b => sameCategory(b, category));
+        if (!bucket) {
+            buckets.push({ ...category, gamesPlayed: 0, gamesWon: 0, gamesLost: 0, gamesDrawn: 0, totalPoints: 0 });
+            bucket = buckets[buckets.length - 1] as StatsBucket;
+        }
+        addResult(bucket, gameResult, points);
+    }
+};
+
+// Totals over the buckets matching `filter`; an empty filter covers every categorised game
+export const getStatsSlice = (stats: PlayerStats, filter: StatsFilter): StatsSlice => {
+    const slice: StatsSlice = { gamesPlayed: 0, gamesWon: 0, gamesLost: 0, gamesDrawn: 0, totalPoints: 0, averagePoints: 0, winRate: 0 };
+    if (filter.boardSize) slice.boardSize = filter.boardSize;
+    if (filter.timeControl) slice.timeControl = filter.timeControl;
+    if (filter.color) slice.color = filter.color;
+
+    (stats.buckets ?? [])
+        .filter(bucket =>
+            (!filter.boardSize || bucket.boardSize === filter.boardSize) &&
+            (!filter.timeControl || bucket.timeControl === filter.timeControl) &&
+            (!filter.color || bucket.color === filter.color))
+        .forEach(bucket => {
+            slice.gamesPlayed += bucket.gamesPlayed;
+            slice.gamesWon += bucket.gamesWon;
+            slice.gamesLost += bucket.gamesLost;
+            slice.gamesDrawn += bucket.gamesDrawn;
+            slice.totalPoints += bucket.totalPoints;
+        });
+
+    if (slice.gamesPlayed > 0) {
+        slice.averagePoints = slice.totalPoints / slice.gamesPlayed;
+        slice.winRate = Number((slice.gamesWon / slice.gamesPlayed * 100).toFixed(2));
+    }
+
+    return slice;
+};
+
+// Black and white totals side by side, for comparing a player's results by color
+export const getColorSplit = (stats: PlayerStats, filter: StatsFilter): Record<StoneColor, StatsSlice> => ({
+    black: getStatsSlice(stats, { ...filter, color: 'black' }),
+    white: getStatsSlice(stats, { ...filter, color: 'white' })
+});
@@ -0,0 +1,79 @@
+import {
+    ladderRating,
+    LADDER_SIZE,
+    nextLadderIndex,
+    parseRankName,
+    PROVISIONAL_GAMES,
+    rankLabel,
+    rankName,
+    updateLadder
+} from './rankLadder';
+
+// 10k covers ratings from 1500 up to 1600
+const TEN_KYU = 20;
+
+describe('rank names', () => {
+    it('names kyu ranks down from 30k and dan ranks up from 1d', () => {
+        expect(rankName(0)).toBe('30k');
+        expect(rankName(TEN_KYU)).toBe('10k');
+        expect(rankName(29)).toBe('1k');
+        expect(rankName(30)).toBe('1d');
+        expect(rankName(LADDER_SIZE - 1)).toBe('9d');
+    });
+
+    it('parses the names back, ignoring a provisional mark', () => {
+        expect(parseRankName('10k')).toBe(TEN_KYU);
+        expect(parseRankName('3D?')).toBe(32);
+        expect(parseRankName('31k')).toBeNull();
+        expect(parseRankName('10d')).toBeNull();
+        expect(parseRankName('pro')).toBeNull();
+    });
+
+    it('puts the starting rating at the bottom of 10k', () => {
+        expect(ladderRating(TEN_KYU)).toBe(1500);
+    });
+});
+
+describe('nextLadderIndex', () => {
+    it('follows the rating directly without a current rank', () => {
+        expect(nextLadderIndex(1500, undefined)).toBe(TEN_KYU);
+        expect(nextLadderIndex(1499, undefined)).toBe(TEN_KYU - 1);
+    });
+
+    it('keeps the rank while the rating is just past a boundary', () => {
+        expect(nextLadderIndex(1620, TEN_KYU)).toBe(TEN_KYU);
+        expect(nextLadderIndex(1480, TEN_KYU)).toBe(TEN_KYU);
+    });
+
+    it('changes the rank once the rating is well past a boundary', () => {
+        expect(nextLadderIndex(1631, TEN_KYU)).toBe(TEN_KYU + 1);
+        expect(nextLadderIndex(1469, TEN_KYU)).toBe(TEN_KYU - 1);
+    });
+
+    it('does not flip back when the rating returns to the boundary', () => {
+        const promoted = nextLadderIndex(1631, TEN_KYU);
+        expect(nextLadderIndex(1590, promoted)).toBe(promoted);
+    });
+
+    it('moves several ranks at once for a large change and stays on the ladder', () => {
+        expect(nextLadderIndex(1900, TEN_KYU)).toBe(TEN_KYU + 3);
+        expect(nextLadderIndex(-5000, TEN_KYU)).toBe(0);
+        expect(nextLadderIndex(9000, TEN_KYU)).toBe(LADDER_SIZE - 1);
+    });
+});
+
+describe('updateLadder', () => {
+    const rating = { rating: 1620, deviation: 80, volatility: 0.06, ladderIndex: TEN_KYU };
+
+    it('ignores hysteresis and marks the rank while it is provisional', () => {
+        expect(updateLadder({ ...rating, ratedGames: PROVISIONAL_GAMES - 1 })).toEqual({ ladderIndex: TEN_KYU + 1, label: '9k?' });
+    });
+
+    it('applies hysteresis once the rank is established', () => {
+        expect(updateLadder({ ...rating, ratedGames: PROVISIONAL_GAMES })).toEqual({ ladderIndex: TEN_KYU, label: '10k' });
+    });
+
+    it('leaves players without rated games unranked', () => {
+        expect(rankLabel({ ratedGames: 0, ladderIndex: TEN_KYU })).toBe('?');
+    });
+});
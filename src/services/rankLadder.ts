@@ -0,0 +1,76 @@
+import { PlayerRating } from '../types';
+
+// Rating difference of one rank, which is also what one handicap stone makes up on 19x19
+export const RATING_PER_STONE = 100;
+
+// A handicap stone is worth more on smaller boards
+const STONE_WEIGHT: Record<number, number> = { 9: 4, 13: 2, 19: 1 };
+
+// Rating points one handicap stone is worth on a board of this size
+export const stoneValue = (boardSize: number): number => RATING_PER_STONE * (STONE_WEIGHT[boardSize] ?? 1);
+
+// Ladder positions: 0 is 30k, 29 is 1k, 30 is 1d and 38 is 9d
+export const LADDER_SIZE = 39;
+const FIRST_DAN = 30;
+
+// Rating at the bottom of 30k; puts the starting rating of 1500 at 10k
+const LADDER_BASE_RATING = -500;
+
+// How far past a rank boundary the rating must move before the rank changes
+export const RANK_HYSTERESIS = 0.3 * RATING_PER_STONE;
+
+// Ranks stay provisional, shown with a '?', until this many rated games
+export const PROVISIONAL_GAMES = 10;
+
+// Label for players without any rated game
+export const UNRANKED_LABEL = '?';
+
+const clamp = (index: number): number => Math.min(Math.max(index, 0), LADDER_SIZE - 1);
+
+const ladderIndex = (rating: number): number => clamp(Math.floor((rating - LADDER_BASE_RATING) / RATING_PER_STONE));
+
+// Rating at the bottom of a ladder position
+export const ladderRating = (index: number): number => LADDER_BASE_RATING + clamp(index) * RATING_PER_STONE;
+
+export const rankName = (index: number): string =>
+    index >= FIRST_DAN ? `${index - FIRST_DAN + 1}d` : `${FIRST_DAN - index}k`;
+
+// Ladder position for 'Nk' or 'Nd' (a trailing '?' is ignored); null for anything else
+export const parseRankName = (label: string): number | null => {
+    const match = /^(\d+)([kd])\??$/.exec(label.trim().toLowerCase());
+    if (!match) return null;
+
+    const value = Number(match[1]);
+    if (match[2] === 'k' && value >= 1 && value <= FIRST_DAN) return FIRST_DAN - value;
+    if (match[2] === 'd' && value >= 1 && value <= LADDER_SIZE - FIRST_DAN) return FIRST_DAN + value - 1;
+    return null;
+};
+
+// Ladder position after a rating change. Settled players only move once their rating is
+// RANK_HYSTERESIS past a boundary, so a rating hovering around one does not flip the rank back and forth.
+export const nextLadderIndex = (rating: number, current: number | undefined): number => {
+    if (current === undefined) return ladderIndex(rating);
+
+    const promoted = ladderIndex(rating - RANK_HYSTERESIS);
+    if (promoted > current) return promoted;
+
+    const demoted = ladderIndex(rating + RANK_HYSTERESIS);
+    if (demoted < current) return demoted;
+
+    return current;
+};
+
+export const isProvisional = (rating: Pick<PlayerRating, 'ratedGames'>): boolean => rating.ratedGames < PROVISIONAL_GAMES;
+
+// Kyu/dan label for a player's rating, e.g. '3k', '2d' or '12k?' while provisional
+export const rankLabel = (rating: Pick<PlayerRating, 'ratedGames' | 'ladderIndex'>): string => {
+    if (rating.ratedGames === 0 || rating.ladderIndex === undefined) return UNRANKED_LABEL;
+    return `${rankName(rating.ladderIndex)}${isProvisional(rating) ? '?' : ''}`;
+};
+
+// Update a player's ladder position and label after their rating changed. Provisional ranks
+// follow the rating directly; hysteresis only applies once the rank is established.
+export const updateLadder = (rating: PlayerRating): { ladderIndex: number; label: string } => {
+    const ladderIndex = nextLadderIndex(rating.rating, isProvisional(rating) ? undefined : rating.ladderIndex);
+    return { ladderIndex, label: rankLabel({ ratedGames: rating.ratedGames, ladderIndex }) };
+};
@@ -0,0 +1,72 @@
+import { FilterQuery, Types } from 'mongoose';
+import { RatingHistory, RatingHistoryDocument } from '../models/RatingHistory';
+import { TimeControl } from '../types';
+
+const TIME_CONTROLS: TimeControl[] = ['None', 'Blitz', 'Rapid', 'Classical'];
+const BOARD_SIZES = [9, 13, 19];
+
+export interface RatingCategory {
+    boardSize?: number;
+    timeControl?: TimeControl;
+}
+
+export interface RatingHistoryOptions {
+    from?: Date;
+    to?: Date;
+    category?: RatingCategory;
+}
+
+export interface RatingHistoryPoint {
+    date: Date;
+    matchId: Types.ObjectId;
+    opponentId: Types.ObjectId;
+    rating: number;
+    deviation: number;
+    change: number;
+}
+
+// Parse a category such as '19', 'Blitz' or '19-Blitz'; null when it is not one
+export const parseRatingCategory = (value: string): RatingCategory | null => {
+    const category: RatingCategory = {};
+
+    for (const part of value.split('-')) {
+        const timeControl = TIME_CONTROLS.find(tc => tc.toLowerCase() === part.trim().toLowerCase());
+        if (timeControl && !category.timeControl) {
+            category.timeControl = timeControl;
+        } else if (BOARD_SIZES.includes(Number(part)) && !category.boardSize) {
+            category.boardSize = Number(part);
+        } else {
+            return null;
+        }
+    }
+
+    return category;
+};
+
+// Rating after each rated match in the range, oldest first. With a category only that board
+// size and/or time control's games are included; the rating itself is shared by all of them.
+export const getRatingHistory = async (
+    playerId: Types.ObjectId,
+    options: RatingHistoryOptions
+): Promise<RatingHistoryPoint[]> => {
+    const filter: FilterQuery<RatingHistoryDocument> = { playerId };
+
+    if (options.from || options.to) {
+        filter.date = {};
+        if (options.from) filter.date.$gte = options.from;
+        if (options.to) filter.date.$lte = options.to;
+    }
+    if (options.category?.boardSize) filter.boardSize = options.category.boardSize;
+    if (options.category?.timeControl) filter.timeControl = options.category.timeControl;
+
+    const entries = await RatingHistory.find(filter).sort({ date: 1, _id: 1 });
+
+    return entries.map(entry => ({
+        date: entry.date,
+        matchId: entry.matchId,
+        opponentId: entry.opponentId,
+        rating: Math.round(entry.rating * 10) / 10,
+        deviation: Math.round(entry.deviation * 10) / 10,
+        change: Math.round(entry.change * 10) / 10
+    }));
+};
@@ -0,0 +1,235 @@
+import { Document, FilterQuery, Types } from 'mongoose';
+import { Match, MatchDocument } from '../models/Match';
+import { Player, PlayerDocument } from '../models/Player';
+import { RatingHistory } from '../models/RatingHistory';
+import { GameSettings, GlickoRating, IRatingHistory, PlayerRank } from '../types';
+import { GlickoOutcome, inflateDeviation, outcomeChanges, updateGlicko } from './glicko2';
+import { FINISHED_MATCH_FILTER, playerResult } from './matchOutcome';
+import { FAIR_KOMI } from './handicap';
+import { stoneValue, updateLadder } from './rankLadder';
+
+// Games are rated in batches: every match that ended within one period is rated together
+export const RATING_PERIOD_MINUTES = 60;
+const RATING_PERIOD_MS = RATING_PERIOD_MINUTES * 60 * 1000;
+
+// Lowest rating for each rank, highest band first
+export const RATING_BANDS: { rank: PlayerRank; minRating: number }[] = [
+    { rank: 'Master', minRating: 2200 },
+    { rank: 'Expert', minRating: 1900 },
+    { rank: 'Advanced', minRating: 1600 },
+    { rank: 'Intermediate', minRating: 1300 },
+    { rank: 'Beginner', minRating: -Infinity }
+];
+
+export const rankForRating = (rating: number): PlayerRank =>
+    RATING_BANDS.find(band => rating >= band.minRating)?.rank ?? 'Beginner';
+
+export const ratingPeriodOf = (date: Date): number => Math.floor(date.getTime() / RATING_PERIOD_MS);
+
+// Rating points black's handicap and komi are worth. Taking black with no komi is half a stone,
+// each handicap stone after the first another full stone; reverse komi makes it negative.
+export const handicapAdvantage = (settings: Pick<GameSettings, 'boardSize' | 'handicap' | 'komi'>): number => {
+    const stones = Math.max(0, settings.handicap - 1) + (FAIR_KOMI - settings.komi) / (2 * FAIR_KOMI);
+    return stones * stoneValue(settings.boardSize);
+};
+
+// Finished, rated matches between two registered players that have not been rated yet
+const pendingFilter = (before: Date): FilterQuery<MatchDocument> => ({
+    ...FINISHED_MATCH_FILTER,
+    'result.outcome': { $ne: 'no-result' },
+    'gameSettings.rated': { $ne: false },
+    'metadata.ratedAt': { $exists: false },
+    'metadata.endTime': { $lt: before },
+    'players.1': { $exists: true },
+    players: { $not: { $elemMatch: { playerId: { $exists: false } } } }
+});
+
+// Rating at the start of `period`, with the deviation grown for the periods the player sat out.
+// A player already rated for `period` by an interrupted run starts from where that run did.
+const ratingAt = (player: PlayerDocument, period: number): GlickoRating => {
+    const { rating, deviation, volatility, lastPeriod, lastPeriodStart } = player.glicko;
+    if (lastPeriod === period && lastPeriodStart) {
+        return { rating: lastPeriodStart.rating, deviation: lastPeriodStart.deviation, volatility: lastPeriodStart.volatility };
+    }
+    const idle = lastPeriod === undefined ? 0 : period - lastPeriod - 1;
+    return { rating, deviation: inflateDeviation({ rating, deviation, volatility }, idle), volatility };
+};
+
+const SCORES = { win: 1, draw: 0.5, loss: 0 } as const;
+
+// One side of a match being rated
+interface RatedGame {
+    match: MatchDocument;
+    // Position of the player in match.players
+    playerIndex: number;
+    opponentId: Types.ObjectId;
+    outcome: GlickoOutcome;
+}
+
+// Rate every match of one period against the ratings players had when it started. Each match
+// stores both players' rating before and after it, and adds a point to their rating history.
+// Players keep the rating each period started from, so a period interrupted halfway is retried
+// from the same ratings: players it already updated are left alone and the rest are caught up.
+const ratePeriod = async (period: number, matches: MatchDocument[]): Promise<void> => {
+    const ids = new Set(matches.flatMap(match => match.players.map(p => String(p.playerId))));
+    const players = await Player.find({ _id: { $in: [...ids] } });
+    const byId = new Map(players.map(player => [String(player._id), player]));
+
+    const before = new Map(players.map(player => [String(player._id), ratingAt(player, period)]));
+    const games = new Map<string, RatedGame[]>();
+
+    matches.forEach(match => {
+        const advantage = handicapAdvantage(match.gameSettings);
+        const blackIndex = match.players.findIndex(p => p.color === 'black');
+        const whiteIndex = match.players.findIndex(p => p.color === 'white');
+        const blackId = match.players[blackIndex]?.playerId;
+        const whiteId = match.players[whiteIndex]?.playerId;
+        if (!blackId || !whiteId || blackId.equals(whiteId)) return;
+
+        const blackRating = before.get(String(blackId));
+        const whiteRating = before.get(String(whiteId));
+        const blackResult = playerResult(match, blackId);
+        if (!blackRating || !whiteRating || !blackResult) return;
+
+        // Each side plays an opponent shifted by what the handicap and komi are worth
+        const add = (id: Types.ObjectId, game: RatedGame) => games.set(String(id), [...(games.get(String(id)) ?? []), game]);
+        add(blackId, {
+            match,
+            playerIndex: blackIndex,
+            opponentId: whiteId,
+            outcome: { opponent: { ...whiteRating, rating: whiteRating.rating - advantage }, score: SCORES[blackResult] }
+        });
+        add(whiteId, {
+            match,
+            playerIndex: whiteIndex,
+            opponentId: blackId,
+            outcome: { opponent: { ...blackRating, rating: blackRating.rating + advantage }, score: 1 - SCORES[blackResult] }
+        });
+    });
+
+    const matchUpdates = new Map<string, Record<string, number>>();
+    const history: Omit<IRatingHistory, keyof Document>[] = [];
+
+    for (const [id, playerGames] of games) {
+        const player = byId.get(id);
+        const start = before.get(id);
+        if (!player || !start) continue;
+
+        const outcomes = playerGames.map(game => game.outcome);
+        const rating = updateGlicko(start, outcomes);
+        const changes = outcomeChanges(start, outcomes, rating);
+
+        // Games are in the order they ended, so each one starts where the previous one left off
+        let current = start.rating;
+        playerGames.forEach((game, i) => {
+            const change = changes[i] ?? 0;
+            const matchId = String(game.match._id);
+            const update = matchUpdates.get(matchId) ?? {};
+            update[`players.${game.playerIndex}.ratingBefore`] = current;
+            update[`players.${game.playerIndex}.ratingAfter`] = current + change;
+            matchUpdates.set(matchId, update);
+
+            history.push({
+                playerId: player._id,
+                matchId: game.match._id,
+                opponentId: game.opponentId,
+                period,
+                date: game.match.metadata.endTime as Date,
+                boardSize: game.match.gameSettings.boardSize,
+                timeControl: game.match.gameSettings.timeControl,
+                ratingBefore: current,
+                rating: current + change,
+                deviation: rating.deviation,
+                volatility: rating.volatility,
+                change
+            });
+            current += change;
+        });
+
+        if (player.glicko.lastPeriod === period) continue;
+
+        player.glicko.lastPeriodStart = start;
+        player.glicko.rating = rating.rating;
+        player.glicko.deviation = rating.deviation;
+        player.glicko.volatility = rating.volatility;
+        player.glicko.ratedGames += playerGames.length;
+        player.glicko.lastPeriod = period;
+        player.rank = rankForRating(rating.rating);
+
+        const ladder = updateLadder(player.glicko);
+        player.glicko.ladderIndex = ladder.ladderIndex;
+        player.goRank = ladder.label;
+        await player.save();
+    }
+
+    // Upserts, so a period interrupted halfway does not leave duplicate points when it is retried
+    if (history.length > 0) {
+        await RatingHistory.bulkWrite(history.map(entry => ({
+            updateOne: {
+                filter: { playerId: entry.playerId, matchId: entry.matchId },
+                update: { $set: entry },
+                upsert: true
+            }
+        })));
+    }
+
+    const ratedAt = new Date();
+    await Match.bulkWrite(matches.map(match => ({
+        updateOne: {
+            filter: { _id: match._id },
+            update: {
+                $set: {
+                    ...matchUpdates.get(String(match._id)),
+                    'metadata.ratedAt': ratedAt,
+                    'metadata.ratingPeriod': period
+                }
+            }
+        }
+    })));
+};
+
+// Rate all matches from rating periods that have closed, oldest period first.
+// Returns the number of matches rated.
+export const processRatingPeriods = async (now: Date = new Date()): Promise<number> => {
+    const currentPeriodStart = new Date(ratingPeriodOf(now) * RATING_PERIOD_MS);
+    const matches = await Match.find(pendingFilter(currentPeriodStart)).sort({ 'metadata.endTime': 1 });
+
+    const periods = new Map<number, MatchDocument[]>();
+    matches.forEach(match => {
+        const period = ratingPeriodOf(match.metadata.endTime as Date);
+        periods.set(period, [...(periods.get(period) ?? []), match]);
+    });
+
+    for (const [period, periodMatches] of periods) {
+        await ratePeriod(period, periodMatches);
+    }
+
+    return matches.length;
+};
+
+let timer: NodeJS.Timeout | undefined;
+
+// Process closed periods now and again just after each period ends; call once the database is connected
+export const startRatingScheduler = async (): Promise<number> => {
+    const scheduleNext = (): void => {
+        const delay = RATING_PERIOD_MS - (Date.now() % RATING_PERIOD_MS) + 1000;
+        timer = setTimeout(() => {
+            processRatingPeriods()
+                .catch(error => console.error('Rating period error:', error))
+                .finally(scheduleNext);
+        }, delay);
+        timer.unref();
+    };
+
+    // Keep the schedule even if catching up fails; the next run retries the same periods
+    try {
+        return await processRatingPeriods();
+    } finally {
+        scheduleNext();
+    }
+};
+
+export const stopRatingScheduler = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+};
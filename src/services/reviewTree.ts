@@ -0,0 +1,265 @@
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { MatchDocument } from '../models/Match';
+import { IReview, ReviewNote, ReviewVariationNode, StoneColor } from '../types';
+import { IllegalMoveError } from './goEngine';
+import { applyMove, replayMoves, ReplayMove, ReplayState } from './gameReplay';
+import { replaySetupFor } from './matchPositions';
+import {
+    appendComment,
+    appendMarkup,
+    buildSgfTree,
+    createSgfNode,
+    fromSgfPoint,
+    getMainLine,
+    matchToSgfRecord,
+    parseSgf,
+    readMarkup,
+    serializeSgf,
+    SgfError,
+    SgfNode,
+    toSgfPoint
+} from './sgf';
+
+export interface VariationMoveInput {
+    parentId: string | null;
+    // Main-line branch point; ignored when the move continues an existing variation
+    moveNumber: number;
+    color?: StoneColor;
+    x: number;
+    y: number;
+    pass: boolean;
+}
+
+export interface ReviewContent {
+    notes: ReviewNote[];
+    variations: ReviewVariationNode[];
+}
+
+const matchMoves = (match: MatchDocument): ReplayMove[] =>
+    match.moves.map(m => ({ color: m.color, x: m.x, y: m.y, pass: Boolean(m.pass) }));
+
+// Variation nodes from the branch point down to `nodeId`
+export const variationPath = (variations: ReviewVariationNode[], nodeId: string): ReviewVariationNode[] => {
+    const byId = new Map(variations.map(node => [node.nodeId, node]));
+    const path: ReviewVariationNode[] = [];
+    let current = byId.get(nodeId);
+
+    while (current && !path.includes(current)) {
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return path;
+};
+
+// `nodeId` and every node below it
+export const subtreeIds = (variations: ReviewVariationNode[], nodeId: string): Set<string> => {
+    const ids = new Set([nodeId]);
+    let grew = true;
+
+    while (grew) {
+        grew = false;
+        variations.forEach(node => {
+            if (node.parentId && ids.has(node.parentId) && !ids.has(node.nodeId)) {
+                ids.add(node.nodeId);
+                grew = true;
+            }
+        });
+    }
+
+    return ids;
+};
+
+// Position a new variation move would be played on
+const stateBefore = (match: MatchDocument, variations: ReviewVariationNode[], input: VariationMoveInput): ReplayState => {
+    const setup = replaySetupFor(match);
+    const path = input.parentId ? variationPath(variations, input.parentId) : [];
+    const branchAt = path[0]?.moveNumber ?? input.moveNumber;
+
+    return path.reduce(
+        (state, node) => applyMove(state, { color: node.color, x: node.x, y: node.y, pass: node.pass }, setup),
+        replayMoves(setup, matchMoves(match).slice(0, branchAt))
+    );
+};
+
+// Check a variation move against the rules and build its node. Illegal moves throw IllegalMoveError.
+export const createVariationNode = (
+    match: MatchDocument,
+    variations: ReviewVariationNode[],
+    input: VariationMoveInput,
+    author: Types.ObjectId
+): ReviewVariationNode => {
+    const state = stateBefore(match, variations, input);
+    const color = input.color ?? state.currentTurn;
+    const parent = input.parentId ? variationPath(variations, input.parentId)[0] : undefined;
+
+    applyMove(state, { color, x: input.x, y: input.y, pass: input.pass }, replaySetupFor(match));
+
+    return {
+        nodeId: uuidv4(),
+        parentId: input.parentId,
+        moveNumber: parent?.moveNumber ?? input.moveNumber,
+        color,
+        x: input.pass ? -1 : input.x,
+        y: input.pass ? -1 : input.y,
+        pass: input.pass,
+        comment: '',
+        markup: [],
+        author,
+        createdAt: new Date()
+    };
+};
+
+const variationToSgf = (node: ReviewVariationNode): SgfNode => {
+    const sgfNode = createSgfNode({
+        [node.color === 'black' ? 'B' : 'W']: [node.pass ? '' : toSgfPoint(node)]
+    });
+    appendComment(sgfNode, node.comment);
+    appendMarkup(sgfNode, node.markup);
+    return sgfNode;
+};
+
+// SGF of the match with the review's comments, markup and variations. Chat is left out so the
+// file can be imported back into a review without turning chat lines into comments.
+export const reviewToSgf = (match: MatchDocument, review: IReview): string => {
+    const record = { ...matchToSgfRecord(match), chat: [] };
+    const root = buildSgfTree(record);
+    const mainLine = getMainLine(root);
+    const nodeAfter = (moveNumber: number): SgfNode =>
+        mainLine[Math.min(Math.max(0, moveNumber - record.setupMoves), mainLine.length - 1)] as SgfNode;
+
+    if (review.title) root.properties['GN'] = [review.title];
+
+    review.notes.forEach(note => {
+        const node = nodeAfter(note.moveNumber);
+        appendComment(node, note.comment);
+        appendMarkup(node, note.markup);
+    });
+
+    // Main-line nodes keep their first child, so variations always come after the game's own move
+    const sgfNodes = new Map(review.variations.map(node => [node.nodeId, variationToSgf(node)]));
+    review.variations.forEach(node => {
+        const sgfNode = sgfNodes.get(node.nodeId) as SgfNode;
+        const parent = node.parentId ? sgfNodes.get(node.parentId) : nodeAfter(node.moveNumber);
+        parent?.children.push(sgfNode);
+    });
+
+    return serializeSgf(root);
+};
+
+const readMove = (node: SgfNode, boardSize: number): ReplayMove | null => {
+    const value = node.properties['B'] ?? node.properties['W'];
+    if (!value) return null;
+
+    try {
+        const point = fromSgfPoint(value[0] ?? '', boardSize);
+        return {
+            color: node.properties['B'] ? 'black' : 'white',
+            x: point?.x ?? -1,
+            y: point?.y ?? -1,
+            pass: point === null
+        };
+    } catch (error) {
+        throw new SgfError('PARSE_ERROR', (error as Error).message, node.position);
+    }
+};
+
+const sameMove = (a: ReplayMove, b: ReplayMove): boolean =>
+    a.color === b.color && a.pass === b.pass && (a.pass || (a.x === b.x && a.y === b.y));
+
+// Read comments, markup and variations from an SGF of the same game, e.g. one exported by reviewToSgf.
+// The file's main line must follow the match's moves; variations are checked with the rules engine.
+export const reviewFromSgf = (match: MatchDocument, text: string, author: Types.ObjectId): ReviewContent => {
+    const root = parseSgf(text);
+    const setup = replaySetupFor(match);
+    const boardSize = match.gameSettings.boardSize;
+    const moves = matchMoves(match);
+    const setupMoves = matchToSgfRecord(match).setupMoves;
+    const content: ReviewContent = { notes: [], variations: [] };
+
+    const annotate = (node: SgfNode, target: { comment: string; markup: ReviewNote['markup'] }): void => {
+        const comment = node.properties['C']?.[0];
+        if (comment) target.comment = target.comment ? `${target.comment}\n\n${comment}` : comment;
+        try {
+            target.markup.push(...readMarkup(node, boardSize));
+        } catch (error) {
+            throw new SgfError('PARSE_ERROR', (error as Error).message, node.position);
+        }
+    };
+
+    // Depth first, so nodes keep the order of the file: a line's continuation before its alternatives.
+    // Nodes without a move add their comment and markup to the move before them.
+    const readVariation = (
+        node: SgfNode,
+        moveNumber: number,
+        parent: ReviewVariationNode | null,
+        before: ReplayState
+    ): void => {
+        let state = before;
+        let current = parent;
+        const move = readMove(node, boardSize);
+
+        if (move) {
+            try {
+                state = applyMove(state, move, setup);
+            } catch (error) {
+                if (!(error instanceof IllegalMoveError)) throw error;
+                throw new SgfError('ILLEGAL_MOVE', `Variation move is illegal: ${error.message}`, node.position);
+            }
+
+            current = {
+                ...move,
+                nodeId: uuidv4(),
+                parentId: parent?.nodeId ?? null,
+                moveNumber,
+                comment: '',
+                markup: [],
+                author,
+                createdAt: new Date()
+            };
+            content.variations.push(current);
+        }
+        if (current) annotate(node, current);
+
+        node.children.forEach(child => readVariation(child, moveNumber, current, state));
+    };
+
+    let state = replayMoves(setup, moves.slice(0, setupMoves));
+    let moveNumber = setupMoves;
+
+    for (const node of getMainLine(root)) {
+        const move = readMove(node, boardSize);
+
+        // A line continuing past the end of the game can only be a variation
+        if (move && moveNumber === moves.length) {
+            readVariation(node, moveNumber, null, state);
+            break;
+        }
+
+        if (move) {
+            const expected = moves[moveNumber];
+            if (!expected || !sameMove(move, expected)) {
+                throw new SgfError('UNSUPPORTED', `Move ${moveNumber + 1} does not match the match record`, node.position);
+            }
+            state = applyMove(state, expected, setup);
+            moveNumber += 1;
+        }
+
+        const note: ReviewNote = { moveNumber, comment: '', markup: [], author, updatedAt: new Date() };
+        annotate(node, note);
+        if (note.comment || note.markup.length > 0) {
+            const existing = content.notes.find(n => n.moveNumber === moveNumber);
+            if (existing) {
+                existing.comment = [existing.comment, note.comment].filter(Boolean).join('\n\n');
+                existing.markup.push(...note.markup);
+            } else {
+                content.notes.push(note);
+            }
+        }
+
+        node.children.slice(1).forEach(branch => readVariation(branch, moveNumber, null, state));
+    }
+
+    return content;
+};
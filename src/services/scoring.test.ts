@@ -0,0 +1,100 @@
+import { Board, createEmptyBoard, refreshBoard } from './goEngine';
+import { mapTerritory, scoreBoard } from './scoring';
+
+// Build a board from rows of 'X' (black), 'O' (white) and '.' (empty); rows run top to bottom
+const boardFrom = (rows: string[]): Board => {
+    const board = createEmptyBoard(rows.length);
+    rows.forEach((row, y) => {
+        [...row].forEach((cell, x) => {
+            const point = board[y]?.[x];
+            if (point) point.stone = cell === 'X' ? 'black' : cell === 'O' ? 'white' : null;
+        });
+    });
+    return refreshBoard(board);
+};
+
+// Black owns the left column, white the right one; the middle column touches both
+const walls = boardFrom([
+    '.X.O.',
+    '.X.O.',
+    '.X.O.',
+    '.X.O.',
+    '.X.O.'
+]);
+
+// The white group and the black stone in the corner share their only liberties (seki)
+const seki = boardFrom([
+    '..OX.',
+    '.XOX.',
+    'OOOX.',
+    'XXXX.',
+    '.....'
+]);
+
+describe('mapTerritory', () => {
+    it('gives an empty region to the only color bordering it', () => {
+        const territory = mapTerritory(walls);
+
+        expect(territory.black).toHaveLength(5);
+        expect(territory.white).toHaveLength(5);
+        expect(territory.neutral).toHaveLength(5);
+        expect(territory.black.every(point => point.x === 0)).toBe(true);
+    });
+
+    it('leaves the shared liberties of a seki to nobody', () => {
+        const territory = mapTerritory(seki);
+
+        expect(territory.neutral).toEqual(expect.arrayContaining([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }]));
+        expect(territory.neutral).toHaveLength(3);
+        expect(territory.white).toHaveLength(0);
+        expect(territory.black).toHaveLength(9);
+    });
+});
+
+describe('scoreBoard', () => {
+    it('counts stones and territory under area scoring, with komi for white', () => {
+        const score = scoreBoard(walls, { scoringMethod: 'area', komi: 0.5, capturedStones: { black: 2, white: 0 } });
+
+        expect(score.black).toEqual({ stones: 5, territory: 5, prisoners: 2, komi: 0, total: 10 });
+        expect(score.white.total).toBe(10.5);
+        expect(score.winner).toBe('white');
+        expect(score.margin).toBe(0.5);
+    });
+
+    it('counts territory and prisoners under territory scoring', () => {
+        const score = scoreBoard(walls, { scoringMethod: 'territory', komi: 0.5, capturedStones: { black: 2, white: 0 } });
+
+        expect(score.black.total).toBe(7);
+        expect(score.white.total).toBe(5.5);
+        expect(score.winner).toBe('black');
+        expect(score.margin).toBe(1.5);
+    });
+
+    it('reports a draw when the totals are equal', () => {
+        const score = scoreBoard(walls, { scoringMethod: 'area', komi: 0, capturedStones: { black: 0, white: 0 } });
+
+        expect(score.winner).toBeNull();
+        expect(score.margin).toBe(0);
+    });
+
+    it('keeps stones in seki on the board and counts no territory for them', () => {
+        const score = scoreBoard(seki, { scoringMethod: 'area', komi: 0, capturedStones: { black: 0, white: 0 } });
+
+        expect(score.black).toMatchObject({ stones: 8, territory: 9, total: 17 });
+        expect(score.white).toMatchObject({ stones: 5, territory: 0, total: 5 });
+    });
+
+    it('removes dead stones as prisoners for the other color', () => {
+        const deadStones = [{ x: 2, y: 0 }, { x: 2, y: 1 }, { x: 0, y: 2 }, { x: 1, y: 2 }, { x: 2, y: 2 }, { x: 4, y: 4 }];
+        const score = scoreBoard(seki, { scoringMethod: 'territory', komi: 6.5, capturedStones: { black: 0, white: 0 }, deadStones });
+
+        expect(score.black).toMatchObject({ territory: 17, prisoners: 5, total: 22 });
+        expect(score.white).toMatchObject({ stones: 0, total: 6.5 });
+        expect(score.territory.neutral).toHaveLength(0);
+    });
+
+    it('does not change the board it is given', () => {
+        scoreBoard(seki, { scoringMethod: 'area', komi: 0, capturedStones: { black: 0, white: 0 }, deadStones: [{ x: 2, y: 0 }] });
+        expect(seki[0]?.[2]?.stone).toBe('white');
+    });
+});
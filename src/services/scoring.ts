@@ -0,0 +1,103 @@
+import { BoardPosition, CapturedStones, ColorScore, ScoreBreakdown, ScoringMethod, StoneColor, TerritoryMap } from '../types';
+import { Board, cloneBoard, getAdjacent, opponentOf, stoneAt } from './goEngine';
+
+export interface ScoringOptions {
+    scoringMethod: ScoringMethod;
+    komi: number;
+    // Prisoners taken by each color during play
+    capturedStones: CapturedStones;
+    // Stones both players agreed are dead; they are removed and counted as prisoners
+    deadStones?: BoardPosition[];
+}
+
+// Split the empty points into connected regions and assign each region to the only color bordering it
+export const mapTerritory = (board: Board): TerritoryMap => {
+    const size = board.length;
+    const visited = new Set<number>();
+    const territory: TerritoryMap = { black: [], white: [], neutral: [] };
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (stoneAt(board, x, y) !== null || visited.has(y * size + x)) continue;
+
+            const region: BoardPosition[] = [];
+            const borders = new Set<StoneColor>();
+            const stack: BoardPosition[] = [{ x, y }];
+            visited.add(y * size + x);
+
+            while (stack.length > 0) {
+                const point = stack.pop() as BoardPosition;
+                region.push(point);
+
+                for (const next of getAdjacent(size, point.x, point.y)) {
+                    const stone = stoneAt(board, next.x, next.y);
+                    const index = next.y * size + next.x;
+
+                    if (stone !== null) {
+                        borders.add(stone);
+                    } else if (!visited.has(index)) {
+                        visited.add(index);
+                        stack.push(next);
+                    }
+                }
+            }
+
+            const [owner] = borders.size === 1 ? [...borders] : [];
+            territory[owner ?? 'neutral'].push(...region);
+        }
+    }
+
+    return territory;
+};
+
+const countStones = (board: Board, color: StoneColor): number =>
+    board.reduce((total, row) => total + row.filter(cell => (cell.stone ?? null) === color).length, 0);
+
+// Score a finished position. Area scoring counts stones plus territory; territory scoring counts
+// territory plus prisoners. Komi is always added to white.
+export const scoreBoard = (finalBoard: Board, options: ScoringOptions): ScoreBreakdown => {
+    const board = cloneBoard(finalBoard);
+    const prisoners: CapturedStones = {
+        black: options.capturedStones.black || 0,
+        white: options.capturedStones.white || 0
+    };
+
+    (options.deadStones ?? []).forEach(({ x, y }) => {
+        const cell = board[y]?.[x];
+        if (!cell || cell.stone === null) return;
+        prisoners[opponentOf(cell.stone)] += 1;
+        cell.stone = null;
+    });
+
+    const territory = mapTerritory(board);
+
+    const scoreFor = (color: StoneColor): ColorScore => {
+        const stones = countStones(board, color);
+        const taken = prisoners[color];
+        const komi = color === 'white' ? options.komi : 0;
+        const counted = options.scoringMethod === 'area'
+            ? stones + territory[color].length
+            : territory[color].length + taken;
+
+        return {
+            stones,
+            territory: territory[color].length,
+            prisoners: taken,
+            komi,
+            total: counted + komi
+        };
+    };
+
+    const black = scoreFor('black');
+    const white = scoreFor('white');
+    const margin = Math.abs(black.total - white.total);
+
+    return {
+        scoringMethod: options.scoringMethod,
+        black,
+        white,
+        winner: margin === 0 ? null : black.total > white.total ? 'black' : 'white',
+        margin,
+        territory
+    };
+};
@@ -0,0 +1,154 @@
+import { Types } from 'mongoose';
+import { Match } from '../models/Match';
+import {
+    SgfError,
+    SgfGameRecord,
+    buildSgfTree,
+    createSgfNode,
+    formatSgfResult,
+    fromSgfPoint,
+    getMainLine,
+    matchToSgfRecord,
+    parseSgf,
+    serializeSgf,
+    toSgfPoint
+} from './sgf';
+
+const record: SgfGameRecord = {
+    boardSize: 9,
+    komi: 0.5,
+    handicap: 2,
+    handicapStones: [{ x: 2, y: 6 }, { x: 6, y: 2 }],
+    setupMoves: 0,
+    rules: { suicideAllowed: false, koRule: 'superko', scoringMethod: 'area' },
+    blackName: 'alice',
+    whiteName: 'bob',
+    result: 'W+R',
+    date: new Date('2024-03-01T12:00:00Z'),
+    moves: [
+        { color: 'white', x: 4, y: 4, pass: false, timestamp: new Date('2024-03-01T12:00:10Z') },
+        { color: 'black', x: 2, y: 2, pass: false, timestamp: new Date('2024-03-01T12:00:20Z') },
+        { color: 'white', x: 0, y: 0, pass: true, timestamp: new Date('2024-03-01T12:00:30Z') }
+    ],
+    chat: [{
+        playerId: new Types.ObjectId(),
+        username: 'bob',
+        message: 'good [game] \\o/',
+        timestamp: new Date('2024-03-01T12:00:25Z'),
+        type: 'chat'
+    }]
+};
+
+describe('SGF points', () => {
+    it('maps coordinates to letters and back', () => {
+        expect(toSgfPoint({ x: 0, y: 8 })).toBe('ai');
+        expect(fromSgfPoint('ai', 9)).toEqual({ x: 0, y: 8 });
+    });
+
+    it('reads empty and tt points as passes', () => {
+        expect(fromSgfPoint('', 19)).toBeNull();
+        expect(fromSgfPoint('tt', 19)).toBeNull();
+    });
+
+    it('rejects points off the board', () => {
+        expect(() => fromSgfPoint('jj', 9)).toThrow('off the board');
+    });
+});
+
+describe('formatSgfResult', () => {
+    it('writes the winner and how the game ended', () => {
+        expect(formatSgfResult('resignation', 'black', 0)).toBe('B+R');
+        expect(formatSgfResult('timeout', 'white', 0)).toBe('W+T');
+        expect(formatSgfResult('normal', 'white', 3.5)).toBe('W+3.5');
+        expect(formatSgfResult('normal', null, 0)).toBe('0');
+        expect(formatSgfResult('annulled', 'black', 0)).toBe('Void');
+    });
+});
+
+describe('SGF round trip', () => {
+    it('reads back the game info, setup stones and moves it wrote', () => {
+        const text = serializeSgf(buildSgfTree(record));
+        const [root, ...moves] = getMainLine(parseSgf(text));
+
+        expect(root?.properties).toMatchObject({
+            SZ: ['9'],
+            KM: ['0.5'],
+            HA: ['2'],
+            AB: ['cg', 'gc'],
+            RU: ['Chinese'],
+            PB: ['alice'],
+            PW: ['bob'],
+            RE: ['W+R'],
+            DT: ['2024-03-01']
+        });
+        expect(moves.map(node => node.properties)).toEqual([
+            { W: ['ee'] },
+            { B: ['cc'], C: ['bob: good [game] \\o/'] },
+            { W: [''] }
+        ]);
+    });
+
+    it('serializes a parsed file to the same text', () => {
+        const text = serializeSgf(buildSgfTree(record));
+        expect(serializeSgf(parseSgf(text))).toBe(text);
+    });
+
+    it('keeps variations', () => {
+        const root = createSgfNode({ SZ: ['9'] });
+        root.children.push(createSgfNode({ B: ['aa'] }), createSgfNode({ B: ['bb'] }));
+
+        const text = serializeSgf(root);
+        expect(text).toBe('(;SZ[9](;B[aa])(;B[bb]))\n');
+        expect(parseSgf(text).children.map(child => child.properties)).toEqual([{ B: ['aa'] }, { B: ['bb'] }]);
+    });
+});
+
+describe('parseSgf', () => {
+    it('reports where a syntax error is', () => {
+        const parse = () => parseSgf('(;SZ[9]\n;B[aa');
+
+        expect(parse).toThrow(SgfError);
+        expect(parse).toThrow(expect.objectContaining({ code: 'PARSE_ERROR', line: 2 }));
+    });
+});
+
+describe('matchToSgfRecord', () => {
+    const black = new Types.ObjectId();
+    const white = new Types.ObjectId();
+    const stored = (fields: object) => Match.hydrate({
+        _id: new Types.ObjectId(),
+        matchId: 'match',
+        players: [
+            { playerId: black, username: 'alice', color: 'black' },
+            { playerId: white, username: 'bob', color: 'white' }
+        ],
+        gameSettings: { boardSize: 9, timeControl: 'None', handicap: 0, komi: 6.5 },
+        moves: [],
+        metadata: { startTime: new Date('2024-03-01T12:00:00Z') },
+        ...fields
+    });
+
+    it('writes no result for a match still being played', () => {
+        expect(matchToSgfRecord(stored({ gameState: { status: 'active' } })).result).toBeUndefined();
+    });
+
+    it('writes no result for a completed match without a recorded outcome', () => {
+        expect(matchToSgfRecord(stored({ gameState: { status: 'completed' } })).result).toBeUndefined();
+    });
+
+    it('writes the recorded result, including for older records with only a winner', () => {
+        const result = { outcome: 'win', winner: white, winnerColor: 'white', endReason: 'resignation', margin: 0 };
+        expect(matchToSgfRecord(stored({ gameState: { status: 'completed' }, result })).result).toBe('W+R');
+
+        const legacy = { winner: black, endReason: 'normal', margin: 3.5 };
+        expect(matchToSgfRecord(stored({ gameState: { status: 'completed' }, result: legacy })).result).toBe('B+3.5');
+    });
+
+    it('only writes rules that were stored with the match', () => {
+        const rules = { suicideAllowed: false, koRule: 'standard', scoringMethod: 'territory' };
+
+        expect(matchToSgfRecord(stored({ gameState: { status: 'completed' } })).rules).toBeUndefined();
+        expect(matchToSgfRecord(stored({ gameState: { status: 'completed' }, gameRules: rules })).rules)
+            .toMatchObject({ scoringMethod: 'territory' });
+    });
+});
@@ -0,0 +1,475 @@
+import {
+    BoardMarkup,
+    BoardPosition,
+    ChatMessage,
+    EndReason,
+    GameRules,
+    IGame,
+    IMatch,
+    MarkupType,
+    StoneColor
+} from '../types';
+import { getHandicapPoints } from './handicap';
+import { recordedOutcome } from './matchOutcome';
+
+export interface SgfPosition {
+    line: number;
+    column: number;
+}
+
+export interface SgfNode {
+    properties: Record<string, string[]>;
+    children: SgfNode[];
+    // Where the node starts in the source text, set by the parser
+    position?: SgfPosition;
+}
+
+export type SgfErrorCode = 'PARSE_ERROR' | 'UNSUPPORTED' | 'ILLEGAL_MOVE';
+
+// Problem with an SGF file, pointing at the line and column where it was found
+export class SgfError extends Error {
+    readonly code: SgfErrorCode;
+    readonly line: number;
+    readonly column: number;
+
+    constructor(code: SgfErrorCode, message: string, position: SgfPosition = { line: 1, column: 1 }) {
+        super(`${message} (line ${position.line}, column ${position.column})`);
+        this.name = 'SgfError';
+        this.code = code;
+        this.line = position.line;
+        this.column = position.column;
+    }
+}
+
+export interface SgfMove {
+    color: StoneColor;
+    x: number;
+    y: number;
+    pass: boolean;
+    timestamp?: Date;
+}
+
+// Everything needed to write one game record, independent of where it came from
+export interface SgfGameRecord {
+    boardSize: number;
+    komi: number;
+    handicap: number;
+    handicapStones: BoardPosition[];
+    // Leading moves of the stored game written as AB setup stones (free handicap placement)
+    setupMoves: number;
+    rules?: GameRules;
+    blackName: string;
+    whiteName: string;
+    result?: string;
+    date?: Date;
+    moves: SgfMove[];
+    chat: ChatMessage[];
+}
+
+const APPLICATION = 'go-game-api:1.0.0';
+
+export const createSgfNode = (properties: Record<string, string[]> = {}): SgfNode => ({ properties, children: [] });
+
+// SGF points are two letters, column first, with 'aa' in the top-left corner
+export const toSgfPoint = ({ x, y }: BoardPosition): string =>
+    String.fromCharCode(97 + x) + String.fromCharCode(97 + y);
+
+// Inverse of toSgfPoint; returns null for a pass ('' or 'tt' on boards up to 19x19)
+export const fromSgfPoint = (value: string, boardSize: number): BoardPosition | null => {
+    if (value === '' || (value === 'tt' && boardSize <= 19)) return null;
+    if (!/^[a-z]{2}$/.test(value)) throw new Error(`Invalid point "${value}"`);
+
+    const x = value.charCodeAt(0) - 97;
+    const y = value.charCodeAt(1) - 97;
+    if (x >= boardSize || y >= boardSize) throw new Error(`Point "${value}" is off the board`);
+
+    return { x, y };
+};
+
+export const escapeSgfText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+
+// RE[] value: 'B+R', 'W+T', 'B+3.5', '0' for a draw, 'Void' for an annulled game
+export const formatSgfResult = (endReason: EndReason, winnerColor: StoneColor | null, margin: number): string => {
+    if (endReason === 'annulled') return 'Void';
+    if (winnerColor === null) return '0';
+
+    const winner = winnerColor === 'black' ? 'B' : 'W';
+    switch (endReason) {
+        case 'resignation':
+            return `${winner}+R`;
+        case 'timeout':
+            return `${winner}+T`;
+        case 'abandoned':
+            return `${winner}+F`;
+        default:
+            return margin > 0 ? `${winner}+${margin}` : `${winner}+`;
+    }
+};
+
+// RU[] value for the scoring method in use
+export const formatSgfRules = (rules: GameRules): string =>
+    rules.scoringMethod === 'area' ? 'Chinese' : 'Japanese';
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const appendProperty = (node: SgfNode, key: string, value: string): void => {
+    node.properties[key] = [...(node.properties[key] ?? []), value];
+};
+
+// SGF property for each kind of board markup; labels use LB[point:text]
+const MARKUP_PROPERTIES: Record<Exclude<MarkupType, 'label'>, string> = {
+    triangle: 'TR',
+    square: 'SQ',
+    circle: 'CR',
+    cross: 'MA',
+    'territory-black': 'TB',
+    'territory-white': 'TW'
+};
+
+// Add a comment to a node, after any comment it already has
+export const appendComment = (node: SgfNode, comment: string): void => {
+    if (!comment) return;
+    const existing = node.properties['C']?.[0];
+    node.properties['C'] = [existing ? `${existing}\n\n${comment}` : comment];
+};
+
+export const appendMarkup = (node: SgfNode, markup: BoardMarkup[]): void => {
+    markup.forEach(mark => {
+        if (mark.type === 'label') {
+            appendProperty(node, 'LB', `${toSgfPoint(mark)}:${mark.label ?? ''}`);
+        } else {
+            appendProperty(node, MARKUP_PROPERTIES[mark.type], toSgfPoint(mark));
+        }
+    });
+};
+
+// Markup properties of a node; point lists compressed as "aa:cc" rectangles are expanded
+export const readMarkup = (node: SgfNode, boardSize: number): BoardMarkup[] => {
+    const markup: BoardMarkup[] = [];
+
+    (Object.keys(MARKUP_PROPERTIES) as Exclude<MarkupType, 'label'>[]).forEach(type => {
+        (node.properties[MARKUP_PROPERTIES[type]] ?? []).forEach(value => {
+            const [from = '', to = from] = value.split(':');
+            const start = fromSgfPoint(from, boardSize);
+            const end = fromSgfPoint(to, boardSize);
+            if (!start || !end) return;
+
+            for (let y = Math.min(start.y, end.y); y <= Math.max(start.y, end.y); y++) {
+                for (let x = Math.min(start.x, end.x); x <= Math.max(start.x, end.x); x++) {
+                    markup.push({ type, x, y });
+                }
+            }
+        });
+    });
+
+    (node.properties['LB'] ?? []).forEach(value => {
+        const separator = value.indexOf(':');
+        const point = fromSgfPoint(separator === -1 ? value : value.slice(0, separator), boardSize);
+        if (point) markup.push({ type: 'label', x: point.x, y: point.y, label: separator === -1 ? '' : value.slice(separator + 1) });
+    });
+
+    return markup;
+};
+
+// The root followed by the first child of every node
+export const getMainLine = (root: SgfNode): SgfNode[] => {
+    const nodes = [root];
+    let current = root.children[0];
+    while (current) {
+        nodes.push(current);
+        current = current.children[0];
+    }
+    return nodes;
+};
+
+// Attach each chat message to the node of the last move played before it was sent
+const attachChat = (root: SgfNode, moveNodes: SgfNode[], moves: SgfMove[], chat: ChatMessage[]): void => {
+    chat.forEach(message => {
+        let target = root;
+        moves.forEach((move, index) => {
+            const node = moveNodes[index];
+            if (node && move.timestamp && move.timestamp.getTime() <= new Date(message.timestamp).getTime()) {
+                target = node;
+            }
+        });
+
+        const line = `${message.username}: ${message.message}`;
+        const existing = target.properties['C']?.[0];
+        target.properties['C'] = [existing ? `${existing}\n${line}` : line];
+    });
+};
+
+// Turn a game record into a single main-line SGF tree
+export const buildSgfTree = (record: SgfGameRecord): SgfNode => {
+    const root = createSgfNode({
+        FF: ['4'],
+        GM: ['1'],
+        CA: ['UTF-8'],
+        AP: [APPLICATION],
+        SZ: [String(record.boardSize)],
+        KM: [String(record.komi)],
+        PB: [record.blackName],
+        PW: [record.whiteName]
+    });
+
+    if (record.handicap > 0) appendProperty(root, 'HA', String(record.handicap));
+    if (record.handicapStones.length > 0) root.properties['AB'] = record.handicapStones.map(toSgfPoint);
+    if (record.rules) appendProperty(root, 'RU', formatSgfRules(record.rules));
+    if (record.date) appendProperty(root, 'DT', formatDate(record.date));
+    if (record.result) appendProperty(root, 'RE', record.result);
+
+    let current = root;
+    const moveNodes = record.moves.map(move => {
+        const node = createSgfNode({
+            [move.color === 'black' ? 'B' : 'W']: [move.pass ? '' : toSgfPoint(move)]
+        });
+        current.children.push(node);
+        current = node;
+        return node;
+    });
+
+    attachChat(root, moveNodes, record.moves, record.chat);
+
+    return root;
+};
+
+const serializeNode = (node: SgfNode): string =>
+    ';' + Object.entries(node.properties)
+        .map(([key, values]) => key + values.map(value => `[${escapeSgfText(value)}]`).join(''))
+        .join('');
+
+// A node with one child continues the current sequence; several children open variations
+const serializeSequence = (node: SgfNode): string => {
+    let text = serializeNode(node);
+    let current = node;
+
+    while (current.children.length === 1) {
+        current = current.children[0] as SgfNode;
+        text += serializeNode(current);
+    }
+
+    if (current.children.length > 1) {
+        text += current.children.map(child => `(${serializeSequence(child)})`).join('');
+    }
+
+    return text;
+};
+
+export const serializeSgf = (root: SgfNode): string => `(${serializeSequence(root)})\n`;
+
+// Parse the first game tree of an SGF collection. Syntax errors throw SgfError with their position.
+export const parseSgf = (text: string): SgfNode => {
+    let index = 0;
+    let line = 1;
+    let column = 1;
+
+    const here = (): SgfPosition => ({ line, column });
+    const peek = (): string | undefined => text[index];
+    const advance = (): string => {
+        const char = text[index++] as string;
+        if (char === '\n') {
+            line += 1;
+            column = 1;
+        } else {
+            column += 1;
+        }
+        return char;
+    };
+    const skipWhitespace = (): void => {
+        while (index < text.length && /\s/.test(peek() as string)) advance();
+    };
+    const expect = (char: string): void => {
+        skipWhitespace();
+        if (peek() !== char) {
+            const found = peek() === undefined ? 'end of file' : `"${peek()}"`;
+            throw new SgfError('PARSE_ERROR', `Expected "${char}" but found ${found}`, here());
+        }
+        advance();
+    };
+
+    const parseValue = (): string => {
+        expect('[');
+        const start = here();
+        let value = '';
+
+        while (peek() !== ']') {
+            if (index >= text.length) throw new SgfError('PARSE_ERROR', 'Unterminated property value', start);
+
+            const char = advance();
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+
+            // Escaped character; an escaped line break is a soft break and is dropped
+            if (index >= text.length) throw new SgfError('PARSE_ERROR', 'Unterminated property value', start);
+            const escaped = advance();
+            if (escaped === '\r' && peek() === '\n') advance();
+            if (escaped !== '\n' && escaped !== '\r') value += escaped;
+        }
+
+        advance();
+        return value;
+    };
+
+    const parseNode = (): SgfNode => {
+        skipWhitespace();
+        const node = createSgfNode();
+        node.position = here();
+        expect(';');
+
+        for (;;) {
+            skipWhitespace();
+            if (!/[A-Za-z]/.test(peek() ?? '')) break;
+
+            const start = here();
+            let ident = '';
+            while (/[A-Za-z]/.test(peek() ?? '')) ident += advance();
+
+            // FF[3] allowed lowercase letters inside identifiers (e.g. "AddBlack")
+            const key = ident.replace(/[a-z]/g, '');
+            if (!key) throw new SgfError('PARSE_ERROR', `Invalid property identifier "${ident}"`, start);
+
+            skipWhitespace();
+            const values: string[] = [];
+            while (peek() === '[') {
+                values.push(parseValue());
+                skipWhitespace();
+            }
+            if (values.length === 0) throw new SgfError('PARSE_ERROR', `Property ${key} has no value`, start);
+
+            node.properties[key] = [...(node.properties[key] ?? []), ...values];
+        }
+
+        return node;
+    };
+
+    const parseTree = (): SgfNode => {
+        expect('(');
+        skipWhitespace();
+
+        const root = parseNode();
+        let current = root;
+        skipWhitespace();
+        while (peek() === ';') {
+            const next = parseNode();
+            current.children.push(next);
+            current = next;
+            skipWhitespace();
+        }
+
+        while (peek() === '(') {
+            current.children.push(parseTree());
+            skipWhitespace();
+        }
+
+        expect(')');
+        return root;
+    };
+
+    // Anything before the first "(" is ignored, as most readers do
+    const start = text.indexOf('(');
+    if (start === -1) throw new SgfError('PARSE_ERROR', 'No game tree found', here());
+    while (index < start) advance();
+
+    return parseTree();
+};
+
+// Split free handicap placement off the move list so it is written as setup stones
+const splitHandicap = (
+    moves: SgfMove[],
+    handicap: number,
+    boardSize: number,
+    placement: string | undefined
+): { stones: BoardPosition[]; moves: SgfMove[] } => {
+    if (handicap < 2) return { stones: [], moves };
+
+    if (placement !== 'free') {
+        return { stones: getHandicapPoints(boardSize, handicap), moves };
+    }
+
+    const placed = moves.slice(0, handicap);
+    if (placed.length < handicap || placed.some(m => m.color !== 'black' || m.pass)) {
+        return { stones: [], moves };
+    }
+
+    return { stones: placed.map(m => ({ x: m.x, y: m.y })), moves: moves.slice(handicap) };
+};
+
+const toSgfMoves = (moves: { color: StoneColor; x: number; y: number; pass?: boolean; timestamp?: Date }[]): SgfMove[] =>
+    moves.map(m => {
+        const move: SgfMove = { color: m.color, x: m.x, y: m.y, pass: Boolean(m.pass) };
+        if (m.timestamp) move.timestamp = new Date(m.timestamp);
+        return move;
+    });
+
+export const gameToSgfRecord = (game: IGame): SgfGameRecord => {
+    const { boardSize, handicap, handicapPlacement, komi } = game.gameSettings;
+    const setup = splitHandicap(toSgfMoves(game.boardState.moveHistory), handicap, boardSize, handicapPlacement);
+    const black = game.players.find(p => p.color === 'black');
+    const white = game.players.find(p => p.color === 'white');
+
+    const record: SgfGameRecord = {
+        boardSize,
+        komi,
+        handicap,
+        handicapStones: setup.stones,
+        setupMoves: game.boardState.moveHistory.length - setup.moves.length,
+        rules: game.gameRules,
+        blackName: black?.displayName || black?.username || 'Black',
+        whiteName: white?.displayName || white?.username || 'White',
+        moves: setup.moves,
+        chat: game.chat
+    };
+
+    const date = game.metadata.startedAt ?? game.metadata.createdAt;
+    if (date) record.date = date;
+
+    if (game.status === 'completed' && game.result?.endReason) {
+        record.result = formatSgfResult(game.result.endReason, game.result.winnerColor, game.finalScore?.margin ?? 0);
+    }
+
+    return record;
+};
+
+export const matchToSgfRecord = (match: IMatch): SgfGameRecord => {
+    const { boardSize, handicap, handicapPlacement, komi } = match.gameSettings;
+    const setup = splitHandicap(toSgfMoves(match.moves), handicap, boardSize, handicapPlacement);
+    const black = match.players.find(p => p.color === 'black');
+    const white = match.players.find(p => p.color === 'white');
+
+    const record: SgfGameRecord = {
+        boardSize,
+        komi,
+        handicap,
+        handicapStones: setup.stones,
+        setupMoves: match.moves.length - setup.moves.length,
+        blackName: black?.displayName || black?.username || 'Black',
+        whiteName: white?.displayName || white?.username || 'White',
+        date: match.metadata.startTime,
+        moves: setup.moves,
+        chat: match.chat ?? []
+    };
+
+    // Older matches did not store rules; the schema default would claim area scoring for them
+    if (match.gameRules?.scoringMethod && !match.$isDefault('gameRules.scoringMethod')) record.rules = match.gameRules;
+
+    // Every match has a default endReason, so only a recorded outcome means it has a result
+    const outcome = recordedOutcome(match);
+    if (outcome && match.result) {
+        const { winner, winnerColor } = match.result;
+        const color = outcome === 'win'
+            ? winnerColor ?? match.players.find(p => winner && p.playerId?.equals(winner))?.color ?? null
+            : null;
+        // A win whose winner is no longer among the players cannot be written as B+ or W+
+        if (outcome !== 'win' || color) {
+            record.result = formatSgfResult(match.result.endReason, color, match.result.margin ?? 0);
+        }
+    }
+
+    return record;
+};
+
+export const gameToSgf = (game: IGame): string => serializeSgf(buildSgfTree(gameToSgfRecord(game)));
+
+export const matchToSgf = (match: IMatch): string => serializeSgf(buildSgfTree(matchToSgfRecord(match)));
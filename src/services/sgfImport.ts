@@ -0,0 +1,339 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { Match, MatchDocument } from '../models/Match';
+import { Player, PlayerDocument } from '../models/Player';
+import {
+    BoardPosition,
+    EndReason,
+    GameMove,
+    GameRules,
+    MatchOutcome,
+    MatchPlayer,
+    MatchResult,
+    StoneColor
+} from '../types';
+import { recordMatchStats } from './gameCompletion';
+import { IllegalMoveError } from './goEngine';
+import { applyMove, createInitialState, ReplayMove, ReplaySetup } from './gameReplay';
+import { getHandicapPoints, MAX_HANDICAP } from './handicap';
+import { fromSgfPoint, parseSgf, SgfError, SgfNode, SgfPosition, toSgfPoint } from './sgf';
+
+const BOARD_SIZES = [9, 13, 19];
+
+// Rule sets that count by area; everything else is scored by territory
+const AREA_RULES = /chinese|aga|new zealand|^nz$/i;
+const SUICIDE_RULES = /new zealand|^nz$/i;
+
+export interface ParsedSgfResult {
+    outcome: MatchOutcome;
+    winnerColor: StoneColor | null;
+    endReason: EndReason;
+    margin: number;
+}
+
+export interface SgfImportResult {
+    match: MatchDocument;
+    // False when the same file was imported before; `match` is then the existing record
+    created: boolean;
+}
+
+interface SgfMainLineMove extends ReplayMove {
+    position: SgfPosition;
+}
+
+const first = (node: SgfNode, key: string): string | undefined => node.properties[key]?.[0];
+
+const positionOf = (node: SgfNode): SgfPosition => node.position ?? { line: 1, column: 1 };
+
+// RE[] value to a result; null when the result is unknown (RE[?] or missing)
+export const parseSgfResult = (value: string): ParsedSgfResult | null => {
+    const text = value.trim();
+    if (/^(0|draw|jigo)$/i.test(text)) return { outcome: 'draw', winnerColor: null, endReason: 'normal', margin: 0 };
+    if (/^void$/i.test(text)) return { outcome: 'no-result', winnerColor: null, endReason: 'annulled', margin: 0 };
+
+    const match = /^([BW])\+(.*)$/i.exec(text);
+    if (!match) return null;
+
+    const winnerColor: StoneColor = (match[1] as string).toUpperCase() === 'B' ? 'black' : 'white';
+    const reason = (match[2] as string).trim();
+
+    if (/^r(esign)?$/i.test(reason)) return { outcome: 'win', winnerColor, endReason: 'resignation', margin: 0 };
+    if (/^t(ime)?$/i.test(reason)) return { outcome: 'win', winnerColor, endReason: 'timeout', margin: 0 };
+    if (/^f(orfeit)?$/i.test(reason)) return { outcome: 'win', winnerColor, endReason: 'abandoned', margin: 0 };
+
+    const margin = Number(reason);
+    return { outcome: 'win', winnerColor, endReason: 'normal', margin: Number.isFinite(margin) ? margin : 0 };
+};
+
+export const rulesFromSgf = (value: string | undefined): GameRules => ({
+    suicideAllowed: SUICIDE_RULES.test(value ?? ''),
+    koRule: 'standard',
+    scoringMethod: AREA_RULES.test(value ?? '') ? 'area' : 'territory'
+});
+
+const readPoint = (value: string, boardSize: number, node: SgfNode): BoardPosition | null => {
+    try {
+        return fromSgfPoint(value, boardSize);
+    } catch (error) {
+        throw new SgfError('PARSE_ERROR', (error as Error).message, positionOf(node));
+    }
+};
+
+const readBoardSize = (root: SgfNode): 9 | 13 | 19 => {
+    const value = first(root, 'SZ') ?? '19';
+    const size = Number(value);
+
+    if (!BOARD_SIZES.includes(size)) {
+        throw new SgfError('UNSUPPORTED', `Board size ${value} is not supported`, positionOf(root));
+    }
+
+    return size as 9 | 13 | 19;
+};
+
+// DT may list several dates ("2019-03-01,02"); the first one is the start
+const readDateText = (root: SgfNode): string | null => /^\d{4}-\d{2}-\d{2}/.exec(first(root, 'DT') ?? '')?.[0] ?? null;
+
+const readDate = (root: SgfNode): Date => {
+    const value = readDateText(root);
+    const date = value ? new Date(`${value}T00:00:00Z`) : new Date();
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+// Follow the first child of every node; other variations are not imported
+const readMainLine = (root: SgfNode, boardSize: number): SgfMainLineMove[] => {
+    const moves: SgfMainLineMove[] = [];
+    let node: SgfNode | undefined = root;
+
+    while (node) {
+        if (node !== root && ['AB', 'AW', 'AE'].some(key => node?.properties[key])) {
+            throw new SgfError('UNSUPPORTED', 'Setup stones are only supported in the root node', positionOf(node));
+        }
+
+        const black = node.properties['B'];
+        const white = node.properties['W'];
+        if (black && white) {
+            throw new SgfError('PARSE_ERROR', 'Node has both a black and a white move', positionOf(node));
+        }
+
+        const value = black ?? white;
+        if (value) {
+            const point = readPoint(value[0] ?? '', boardSize, node);
+            moves.push({
+                color: black ? 'black' : 'white',
+                x: point?.x ?? -1,
+                y: point?.y ?? -1,
+                pass: point === null,
+                position: positionOf(node)
+            });
+        }
+
+        node = node.children[0];
+    }
+
+    return moves;
+};
+
+// Handicap from the root AB stones. Stones on the usual star points are a fixed handicap;
+// any other layout is replayed as free placement, i.e. as black's first moves.
+const readHandicap = (
+    root: SgfNode,
+    boardSize: number
+): { handicap: number; placement: 'fixed' | 'free'; stones: BoardPosition[] } => {
+    if (root.properties['AW'] || root.properties['AE']) {
+        throw new SgfError('UNSUPPORTED', 'Only black setup stones (AB) are supported', positionOf(root));
+    }
+
+    const stones = (root.properties['AB'] ?? [])
+        .map(value => readPoint(value, boardSize, root))
+        .filter((point): point is BoardPosition => point !== null);
+
+    if (stones.length === 0) return { handicap: 0, placement: 'fixed', stones };
+    if (stones.length === 1 || stones.length > MAX_HANDICAP) {
+        throw new SgfError('UNSUPPORTED', `A handicap of ${stones.length} stones is not supported`, positionOf(root));
+    }
+
+    const fixed = new Set(getHandicapPoints(boardSize, stones.length).map(toSgfPoint));
+    const placement = stones.every(stone => fixed.has(toSgfPoint(stone))) ? 'fixed' : 'free';
+
+    return { handicap: stones.length, placement, stones };
+};
+
+// Same id for the same game: players, date, board and moves, whatever comments, result or
+// formatting the file has, so a lightly edited copy of an imported file is still a duplicate
+const gameFingerprint = (root: SgfNode, boardSize: number, stones: BoardPosition[], moves: ReplayMove[]): string => {
+    const game = {
+        black: first(root, 'PB')?.trim() ?? '',
+        white: first(root, 'PW')?.trim() ?? '',
+        date: readDateText(root),
+        boardSize,
+        setup: stones.map(toSgfPoint),
+        moves: moves.map(move => `${move.color === 'black' ? 'B' : 'W'}${move.pass ? '' : toSgfPoint(move)}`)
+    };
+    return `sgf-${createHash('sha256').update(JSON.stringify(game)).digest('hex').slice(0, 24)}`;
+};
+
+// Account named in PB/PW: the exact username, or else a display name that only one player uses
+// (files exported from this server record display names)
+const findPlayer = async (name: string | undefined): Promise<PlayerDocument | null> => {
+    const trimmed = name?.trim();
+    if (!trimmed) return null;
+
+    const byUsername = await Player.findOne({ username: trimmed });
+    if (byUsername) return byUsername;
+
+    const byDisplayName = await Player.find({ displayName: trimmed }).limit(2);
+    return byDisplayName.length === 1 ? byDisplayName[0] as PlayerDocument : null;
+};
+
+// Parse an SGF file, validate its main line with the rules engine and store it as a completed Match.
+// Parse errors and illegal moves throw SgfError with the line and column of the offending node.
+// Nothing checks that an uploaded game was really played or that RE[] is its real result, so
+// players only link their own account and their uploads are kept for history without counting
+// toward stats or leaderboards. Administrators (`trusted`) can link any account, and their
+// imports with a known result count like games played here.
+export const importSgf = async (text: string, importedBy: Types.ObjectId, trusted: boolean = false): Promise<SgfImportResult> => {
+    const root = parseSgf(text);
+
+    if (first(root, 'GM') && first(root, 'GM') !== '1') {
+        throw new SgfError('UNSUPPORTED', 'Only Go games (GM[1]) can be imported', positionOf(root));
+    }
+
+    const boardSize = readBoardSize(root);
+    const { handicap, placement, stones } = readHandicap(root, boardSize);
+    const mainLine = readMainLine(root, boardSize);
+
+    const matchId = gameFingerprint(root, boardSize, stones, mainLine);
+    const existing = await Match.findOne({ matchId });
+    if (existing) return { match: existing, created: false };
+
+    const km = Number(first(root, 'KM') ?? 0);
+    const komi = Number.isFinite(km) ? km : 0;
+    const gameRules = rulesFromSgf(first(root, 'RU'));
+
+    const setup: ReplaySetup = {
+        boardSize,
+        handicap,
+        handicapPlacement: placement,
+        suicideAllowed: gameRules.suicideAllowed,
+        koRule: gameRules.koRule
+    };
+
+    const placed: SgfMainLineMove[] = placement === 'free'
+        ? stones.map(stone => ({ color: 'black', x: stone.x, y: stone.y, pass: false, position: positionOf(root) }))
+        : [];
+    const moves = [...placed, ...mainLine];
+
+    let state = createInitialState(setup);
+    moves.forEach((move, index) => {
+        try {
+            state = applyMove(state, move, setup);
+        } catch (error) {
+            if (!(error instanceof IllegalMoveError)) throw error;
+            throw new SgfError('ILLEGAL_MOVE', `Move ${index + 1 - placed.length} is illegal: ${error.message}`, move.position);
+        }
+    });
+
+    const startTime = readDate(root);
+    const linkable = async (name: string | undefined): Promise<PlayerDocument | null> => {
+        const account = await findPlayer(name);
+        return account && (trusted || account._id.equals(importedBy)) ? account : null;
+    };
+    const [black, white] = await Promise.all([linkable(first(root, 'PB')), linkable(first(root, 'PW'))]);
+    const accounts: Record<StoneColor, PlayerDocument | null> = { black, white };
+    const names: Record<StoneColor, string> = {
+        black: first(root, 'PB')?.trim() || 'Black',
+        white: first(root, 'PW')?.trim() || 'White'
+    };
+
+    const players: MatchPlayer[] = (['black', 'white'] as StoneColor[]).map(color => {
+        const player: MatchPlayer = {
+            username: accounts[color]?.username ?? names[color],
+            displayName: accounts[color]?.displayName ?? names[color],
+            color,
+            finalScore: 0,
+            capturedStones: state.capturedStones[color],
+            territory: 0,
+            komi: color === 'white' ? komi : 0
+        };
+        const account = accounts[color];
+        if (account) {
+            player.playerId = account._id;
+            player.rank = account.rank;
+            player.goRank = account.goRank;
+        }
+        return player;
+    });
+
+    const matchMoves: GameMove[] = moves.map((move, index) => {
+        const stored: GameMove = {
+            color: move.color,
+            x: move.x,
+            y: move.y,
+            timestamp: startTime,
+            capturedStones: (state.capturedByMove[index] ?? []).map(c => ({ x: c.x, y: c.y })),
+            pass: move.pass
+        };
+        const account = accounts[move.color];
+        if (account) stored.playerId = account._id;
+        return stored;
+    });
+
+    const parsedResult = parseSgfResult(first(root, 'RE') ?? '');
+    let result: MatchResult | undefined;
+    if (parsedResult) {
+        result = {
+            outcome: parsedResult.outcome,
+            winnerColor: parsedResult.winnerColor,
+            finalScore: { black: 0, white: 0 },
+            margin: parsedResult.margin,
+            endReason: parsedResult.endReason
+        };
+        const winner = parsedResult.winnerColor ? accounts[parsedResult.winnerColor] : null;
+        if (winner) result.winner = winner._id;
+    }
+
+    // Records without a result are kept for history only, as are all uploads by players
+    const countsForStats = trusted && parsedResult !== null;
+    const lastMove = state.lastMove && !state.lastMove.pass ? state.lastMove : null;
+
+    const match = await Match.create({
+        matchId,
+        players,
+        gameSettings: {
+            boardSize,
+            timeControl: 'None',
+            handicap,
+            handicapPlacement: placement,
+            komi,
+            // Uploaded games are not verified, so they never affect ratings
+            rated: false
+        },
+        gameState: {
+            status: 'completed',
+            currentTurn: state.currentTurn,
+            moveCount: state.moveCount,
+            lastMove: lastMove ? { x: lastMove.x, y: lastMove.y, color: lastMove.color, timestamp: startTime } : undefined,
+            board: state.board.map(row => row.map(cell => ({ stone: cell.stone, liberties: cell.liberties }))),
+            capturedStones: { black: state.capturedStones.black, white: state.capturedStones.white }
+        },
+        moves: matchMoves,
+        result,
+        gameRules,
+        chat: [],
+        metadata: {
+            startTime,
+            endTime: startTime,
+            duration: 0,
+            spectators: [],
+            statsRecorded: false,
+            importedBy,
+            countsForStats
+        }
+    });
+
+    if (countsForStats) {
+        await recordMatchStats(match);
+    }
+
+    return { match, created: true };
+};
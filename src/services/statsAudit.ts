@@ -0,0 +1,137 @@
+import { Match } from '../models/Match';
+import { Player } from '../models/Player';
+import { PlayerStats, PlayerStatsAudit, StatsAuditReport, StatsBucket, StatsDiscrepancy } from '../types';
+import { FINISHED_MATCH_FILTER, playerResult } from './matchOutcome';
+import { applyGameResult, categoryOf, createEmptyStats } from './playerStats';
+
+const STATS_FIELDS = [
+    'gamesPlayed', 'gamesWon', 'gamesLost', 'gamesDrawn', 'totalPoints',
+    'averagePoints', 'winStreak', 'currentStreak', 'currentLossStreak', 'bestWinStreak'
+] as const;
+
+const BUCKET_FIELDS = ['gamesPlayed', 'gamesWon', 'gamesLost', 'gamesDrawn', 'totalPoints'] as const;
+
+// Players written per bulk update when fixing stats
+const WRITE_BATCH_SIZE = 500;
+
+const bucketKey = (bucket: StatsBucket): string => `${bucket.boardSize}/${bucket.timeControl}/${bucket.color}`;
+
+// Replay every finished match in the order the games ended and rebuild each player's stats from scratch.
+// Annulled (no-result) matches count for nobody, as they do when a match ends; matches still being
+// played or without a result are skipped.
+export const computeStatsFromMatches = async (): Promise<{ stats: Map<string, PlayerStats>; matchesScanned: number }> => {
+    const stats = new Map<string, PlayerStats>();
+    let matchesScanned = 0;
+
+    const matches = Match.find(FINISHED_MATCH_FILTER)
+        .select('players result gameSettings metadata')
+        .sort({ 'metadata.endTime': 1, 'metadata.startTime': 1, _id: 1 })
+        .cursor();
+
+    for await (const match of matches) {
+        matchesScanned += 1;
+
+        for (const matchPlayer of match.players) {
+            if (!matchPlayer.playerId) continue;
+
+            const gameResult = playerResult(match, matchPlayer.playerId);
+            if (!gameResult) continue;
+
+            const id = matchPlayer.playerId.toString();
+            const playerStats = stats.get(id) ?? createEmptyStats();
+            applyGameResult(playerStats, gameResult, matchPlayer.finalScore || 0, categoryOf(match, matchPlayer.color));
+            stats.set(id, playerStats);
+        }
+    }
+
+    return { stats, matchesScanned };
+};
+
+const differs = (a: number, b: number): boolean => Math.abs(a - b) > 1e-9;
+
+// Counters in `stored` that differ from `expected`, buckets named by board size, time control and color
+export const diffStats = (stored: PlayerStats, expected: PlayerStats): StatsDiscrepancy[] => {
+    const discrepancies: StatsDiscrepancy[] = [];
+
+    STATS_FIELDS.forEach(field => {
+        const value = stored[field] ?? 0;
+        if (differs(value, expected[field])) discrepancies.push({ field, stored: value, expected: expected[field] });
+    });
+
+    const storedBuckets = new Map((stored.buckets ?? []).map(b => [bucketKey(b), b]));
+    const expectedBuckets = new Map((expected.buckets ?? []).map(b => [bucketKey(b), b]));
+    const keys = new Set([...storedBuckets.keys(), ...expectedBuckets.keys()]);
+
+    keys.forEach(key => {
+        BUCKET_FIELDS.forEach(field => {
+            const value = storedBuckets.get(key)?.[field] ?? 0;
+            const wanted = expectedBuckets.get(key)?.[field] ?? 0;
+            if (differs(value, wanted)) discrepancies.push({ field: `buckets.${key}.${field}`, stored: value, expected: wanted });
+        });
+    });
+
+    return discrepancies;
+};
+
+// Compare every player's stored stats with the ones recomputed from the Match collection.
+// With `fix`, mismatched stats are overwritten and every counted match is flagged as recorded,
+// so ending or archiving it again cannot count it a second time.
+export const auditPlayerStats = async (options: { fix: boolean }): Promise<StatsAuditReport> => {
+    const { stats, matchesScanned } = await computeStatsFromMatches();
+    const report: StatsAuditReport = { matchesScanned, playersChecked: 0, players: [], fixed: options.fix };
+    let writes: { id: string; stats: PlayerStats }[] = [];
+
+    const flush = async (): Promise<void> => {
+        if (writes.length === 0) return;
+        await Player.bulkWrite(writes.map(write => ({
+            updateOne: { filter: { _id: write.id }, update: { $set: { stats: write.stats } } }
+        })));
+        writes = [];
+    };
+
+    const players = Player.find().select('username stats').cursor();
+
+    for await (const player of players) {
+        report.playersChecked += 1;
+
+        const id = player._id.toString();
+        const expected = stats.get(id) ?? createEmptyStats();
+        const discrepancies = diffStats(player.toObject().stats, expected);
+        if (discrepancies.length === 0) continue;
+
+        const audit: PlayerStatsAudit = { playerId: id, username: player.username, discrepancies };
+        report.players.push(audit);
+
+        if (options.fix) {
+            writes.push({ id, stats: expected });
+            if (writes.length >= WRITE_BATCH_SIZE) await flush();
+        }
+    }
+
+    if (options.fix) {
+        await flush();
+        await Match.updateMany(
+            { ...FINISHED_MATCH_FILTER, 'result.outcome': { $ne: 'no-result' }, 'metadata.statsRecorded': { $ne: true } },
+            { $set: { 'metadata.statsRecorded': true } }
+        );
+    }
+
+    return report;
+};
+
+// Rebuild only the per-category buckets, leaving the overall totals as they are.
+// Returns the number of players with at least one counted game.
+export const rebuildCategoryStats = async (): Promise<number> => {
+    const { stats } = await computeStatsFromMatches();
+
+    // Players without any finished match lose stale buckets
+    await Player.updateMany({ _id: { $nin: [...stats.keys()] } }, { $set: { 'stats.buckets': [] } });
+
+    if (stats.size > 0) {
+        await Player.bulkWrite([...stats].map(([id, playerStats]) => ({
+            updateOne: { filter: { _id: id }, update: { $set: { 'stats.buckets': playerStats.buckets ?? [] } } }
+        })));
+    }
+
+    return stats.size;
+};
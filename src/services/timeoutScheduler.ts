@@ -0,0 +1,80 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { Game, GameDocument } from '../models/Game';
+import { completeGame } from './gameCompletion';
+
+// setTimeout cannot wait longer than this
+const MAX_DELAY = 2 ** 31 - 1;
+
+// Small margin so the clock has really run out when the timer fires
+const FLAG_GRACE_MS = 50;
+
+const timers = new Map<string, NodeJS.Timeout>();
+let socketServer: SocketIOServer | undefined;
+
+export const cancelTimeout = (gameId: string): void => {
+    const timer = timers.get(gameId);
+    if (timer) {
+        clearTimeout(timer);
+        timers.delete(gameId);
+    }
+};
+
+// (Re)arm the flag timer for the player on move. Call after every save that touches the clocks.
+export const scheduleTimeout = (game: GameDocument): void => {
+    cancelTimeout(game.gameId);
+
+    const clock = game.status === 'active' ? game.getClockState() : undefined;
+    if (!clock?.running) return;
+
+    const remaining = clock.players[clock.running].timeUntilFlag;
+    const timer = setTimeout(() => {
+        void checkForTimeout(game.gameId);
+    }, Math.min(Math.max(remaining, 0) + FLAG_GRACE_MS, MAX_DELAY));
+
+    // Pending flag timers should not keep the process alive on shutdown
+    timer.unref();
+    timers.set(game.gameId, timer);
+};
+
+// Re-read the game and end it if the player on move has flagged, otherwise re-arm the timer
+export const checkForTimeout = async (gameId: string): Promise<void> => {
+    timers.delete(gameId);
+
+    try {
+        const game = await Game.findOne({ gameId });
+        if (!game || game.status !== 'active') return;
+
+        const clock = game.getClockState();
+        if (!clock?.running) return;
+
+        if (clock.players[clock.running].timeUntilFlag > 0) {
+            scheduleTimeout(game);
+            return;
+        }
+
+        game.handleTimeout(clock.running);
+        await game.save();
+        await completeGame(game, socketServer);
+    } catch (error) {
+        console.error(`Timeout check error for game ${gameId}:`, error);
+    }
+};
+
+// Rebuild timers for every running clock from persisted state; call once the database is connected
+export const startTimeoutScheduler = async (io: SocketIOServer): Promise<number> => {
+    socketServer = io;
+
+    const games = await Game.find({
+        status: 'active',
+        'gameSettings.clock.type': { $exists: true },
+        'metadata.turnStartedAt': { $ne: null }
+    });
+
+    games.forEach(game => scheduleTimeout(game));
+    return games.length;
+};
+
+export const stopTimeoutScheduler = (): void => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+};
@@ -7,20 +7,43 @@ export interface IPlayer extends Document {
     password: string;
     displayName: string;
     avatar?: string;
+    // Derived from the Glicko-2 rating after each rating period
     rank: PlayerRank;
+    glicko: PlayerRating;
+    // Kyu/dan rank such as '4k' or '1d', with a trailing '?' while provisional
+    goRank: string;
     stats: PlayerStats;
+    // Latest matches added to stats (not selected by default)
+    statsMatches?: Types.ObjectId[];
     preferences: PlayerPreferences;
     isOnline: boolean;
+    isAdmin: boolean;
     lastSeen: Date;
     createdAt: Date;
     updatedAt: Date;
     comparePassword(candidatePassword: string): Promise<boolean>;
     getWinRate(): number;
-    updateStats(gameResult: GameResult, points: number): void;
+    updateStats(gameResult: GameResult, points: number, category?: StatsCategory): void;
 }
 
 export type PlayerRank = 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert' | 'Master';
 
+export interface GlickoRating {
+    rating: number;
+    deviation: number;
+    volatility: number;
+}
+
+export interface PlayerRating extends GlickoRating {
+    ratedGames: number;
+    // Last rating period the player had games in; deviation grows with the periods since
+    lastPeriod?: number;
+    // Rating lastPeriod was rated from, so a retried period starts from the same ratings
+    lastPeriodStart?: GlickoRating;
+    // Position on the kyu/dan ladder, kept so rank changes can lag behind the rating
+    ladderIndex?: number;
+}
+
 export interface PlayerStats {
     gamesPlayed: number;
     gamesWon: number;
@@ -28,9 +51,64 @@ export interface PlayerStats {
     gamesDrawn: number;
     totalPoints: number;
     averagePoints: number;
+    // Consecutive wins up to the latest game
     winStreak: number;
+    // Same as winStreak: consecutive wins up to the latest game, 0 after a loss or draw
     currentStreak: number;
+    // Consecutive losses up to the latest game, 0 after a win or draw
+    currentLossStreak: number;
     bestWinStreak: number;
+    // Results split by board size, time control and color; any slice is a sum of buckets
+    buckets?: StatsBucket[];
+}
+
+export interface StatsCategory {
+    boardSize: 9 | 13 | 19;
+    timeControl: TimeControl;
+    color: StoneColor;
+}
+
+export interface StatsBucket extends StatsCategory {
+    gamesPlayed: number;
+    gamesWon: number;
+    gamesLost: number;
+    gamesDrawn: number;
+    totalPoints: number;
+}
+
+// A stored stats counter that does not match the value recomputed from match history
+export interface StatsDiscrepancy {
+    field: string;
+    stored: number;
+    expected: number;
+}
+
+export interface PlayerStatsAudit {
+    playerId: string;
+    username: string;
+    discrepancies: StatsDiscrepancy[];
+}
+
+export interface StatsAuditReport {
+    matchesScanned: number;
+    playersChecked: number;
+    // Only players whose stored stats differ from the recomputed ones
+    players: PlayerStatsAudit[];
+    fixed: boolean;
+}
+
+// Totals for a slice of a player's buckets, e.g. all 19x19 games or all games as white
+export interface StatsSlice {
+    boardSize?: number;
+    timeControl?: TimeControl;
+    color?: StoneColor;
+    gamesPlayed: number;
+    gamesWon: number;
+    gamesLost: number;
+    gamesDrawn: number;
+    totalPoints: number;
+    averagePoints: number;
+    winRate: number;
 }
 
 export interface PlayerPreferences {
@@ -41,6 +119,29 @@ export interface PlayerPreferences {
 
 export type TimeControl = 'None' | 'Blitz' | 'Rapid' | 'Classical';
 
+// Clock types: sudden death, Fischer increment, Japanese byo-yomi and Canadian overtime
+export type ClockType = 'absolute' | 'fischer' | 'byoyomi' | 'canadian';
+
+// All durations are in milliseconds
+export interface ClockSettings {
+    type: ClockType;
+    mainTime: number;
+    increment?: number;
+    maxTime?: number;
+    periods?: number;
+    periodTime?: number;
+    stonesPerPeriod?: number;
+}
+
+// All durations are in milliseconds
+export interface PlayerClock {
+    mainTime: number;
+    periodsLeft: number;
+    periodTimeLeft: number;
+    stonesLeft: number;
+    inOvertime: boolean;
+}
+
 export type GameResult = 'win' | 'loss' | 'draw';
 
 // Match Types
@@ -51,20 +152,30 @@ export interface IMatch extends Document {
     gameState: GameState;
     moves: GameMove[];
     result?: MatchResult;
+    gameRules?: GameRules;
+    chat?: ChatMessage[];
+    positionSnapshots?: PositionSnapshot[];
     metadata: MatchMetadata;
     createdAt: Date;
     updatedAt: Date;
     calculateDuration(): number;
     getBoardState(): BoardState;
     addMove(moveData: GameMove): void;
-    endGame(endReason: EndReason, winnerId: Types.ObjectId, finalScores: FinalScores): void;
+    endGame(endReason: EndReason, winnerId: Types.ObjectId | null, finalScores: FinalScores): void;
 }
 
 export interface MatchPlayer {
-    playerId: Types.ObjectId;
+    // Missing for imported games whose player has no account here
+    playerId?: Types.ObjectId;
     username: string;
     displayName: string;
     color: StoneColor;
+    // Rank when the game was played
+    rank?: PlayerRank;
+    goRank?: string;
+    // Glicko-2 rating before and after this game, once its rating period has been processed
+    ratingBefore?: number;
+    ratingAfter?: number;
     finalScore?: number;
     capturedStones?: number;
     territory?: number;
@@ -75,7 +186,12 @@ export interface GameSettings {
     boardSize: 9 | 13 | 19;
     timeControl: TimeControl;
     handicap: number;
+    handicapPlacement?: HandicapPlacement;
     komi: number;
+    // Rated matches update both players' Glicko-2 ratings; older records count as rated
+    rated?: boolean;
+    // 'auto' when handicap and komi came from the players' rating gap; older records are 'manual'
+    handicapMode?: HandicapMode;
 }
 
 export interface GameState {
@@ -109,12 +225,13 @@ export interface CapturedStones {
 }
 
 export interface GameMove {
-    playerId: Types.ObjectId;
+    playerId?: Types.ObjectId;
     color: StoneColor;
     x: number;
     y: number;
     timestamp: Date;
     capturedStones: CapturedPosition[];
+    pass?: boolean;
 }
 
 export interface CapturedPosition {
@@ -122,15 +239,27 @@ export interface CapturedPosition {
     y: number;
 }
 
+export interface BoardPosition {
+    x: number;
+    y: number;
+}
+
 export interface MatchResult {
-    winner: Types.ObjectId;
-    winnerColor: StoneColor;
+    outcome: MatchOutcome;
+    // Missing for draws and no-result games, and for imported games whose winner has no account here
+    winner?: Types.ObjectId;
+    // null unless the outcome is a win
+    winnerColor: StoneColor | null;
     finalScore: FinalScores;
     margin: number;
     endReason: EndReason;
 }
 
-export type EndReason = 'resignation' | 'timeout' | 'normal' | 'abandoned';
+// Records written before outcomes existed have none; treat them as wins when they have a winner
+export type MatchOutcome = 'win' | 'draw' | 'no-result';
+
+// 'annulled' covers void games, which count for neither player
+export type EndReason = 'resignation' | 'timeout' | 'normal' | 'abandoned' | 'annulled';
 
 export interface FinalScores {
     black: number;
@@ -142,6 +271,38 @@ export interface MatchMetadata {
     endTime?: Date;
     duration?: number;
     spectators: Types.ObjectId[];
+    // Set once both players' stats have been updated for this match
+    statsRecorded?: boolean;
+    // Player who uploaded the game, for matches imported from SGF
+    importedBy?: Types.ObjectId;
+    // False for records kept for history only, such as imported games without a known result
+    countsForStats?: boolean;
+    // Set when the match's rating period has been processed
+    ratedAt?: Date;
+    ratingPeriod?: number;
+}
+
+// Replay state cached every few moves, so a position can be rebuilt without replaying the whole game
+export interface PositionSnapshot {
+    moveNumber: number;
+    // One character per point, row by row: 'b', 'w' or '.'
+    board: string;
+    capturedStones: CapturedStones;
+    koPoint: BoardPosition | null;
+    currentTurn: StoneColor;
+    moveCount: number;
+    consecutivePasses: number;
+}
+
+export interface MatchPosition {
+    moveNumber: number;
+    totalMoves: number;
+    board: BoardCell[][];
+    capturedStones: CapturedStones;
+    koPoint: BoardPosition | null;
+    // Side to move after `moveNumber` moves
+    currentTurn: StoneColor;
+    lastMove: GameMove | null;
 }
 
 export interface BoardState {
@@ -152,6 +313,203 @@ export interface BoardState {
     capturedStones: CapturedStones;
 }
 
+export interface RecordTally {
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+export interface HeadToHeadGame {
+    matchId: Types.ObjectId;
+    date: Date;
+    color: StoneColor;
+    result: GameResult;
+    endReason: EndReason;
+    margin: number;
+    boardSize: number;
+    timeControl: TimeControl;
+    ratingChange?: number;
+}
+
+// Record of one player against one opponent, from the first player's point of view
+export interface HeadToHeadSummary {
+    playerId: Types.ObjectId;
+    opponentId: Types.ObjectId;
+    totalGames: number;
+    overall: RecordTally;
+    // Keyed by the color the first player had
+    byColor: Record<StoneColor, RecordTally>;
+    byBoardSize: Record<string, RecordTally>;
+    byTimeControl: Record<string, RecordTally>;
+    // Signed: positive when the first player won on points
+    averageMargin: number;
+    longestWinStreak: number;
+    longestLossStreak: number;
+    currentStreak: { result: GameResult | null; count: number };
+    // Net rating the first player gained or lost in these games; null when none were rated yet
+    ratingChange: number | null;
+    recentGames: HeadToHeadGame[];
+}
+
+// One point on a player's rating graph: the rating right after a rated match
+export interface IRatingHistory extends Document {
+    playerId: Types.ObjectId;
+    matchId: Types.ObjectId;
+    opponentId: Types.ObjectId;
+    period: number;
+    date: Date;
+    boardSize: number;
+    timeControl: TimeControl;
+    ratingBefore: number;
+    rating: number;
+    deviation: number;
+    volatility: number;
+    change: number;
+}
+
+// Leaderboard Types
+export type LeaderboardMetric = 'rating' | 'winRate' | 'wins' | 'points' | 'streak' | 'activity';
+
+export type LeaderboardPeriod = 'all-time' | 'monthly' | 'weekly';
+
+// One leaderboard; a missing board size or time control covers all of them
+export interface LeaderboardFilter {
+    metric: LeaderboardMetric;
+    period: LeaderboardPeriod;
+    boardSize?: 9 | 13 | 19;
+    timeControl?: TimeControl;
+}
+
+// A player's place on one precomputed leaderboard. Unfiltered boards store null board size and time control.
+export interface ILeaderboardEntry extends Document {
+    metric: LeaderboardMetric;
+    period: LeaderboardPeriod;
+    // Start of the month or week covered; null for all-time boards
+    periodStart: Date | null;
+    boardSize: number | null;
+    timeControl: TimeControl | null;
+    // 1-based; players with equal values share a position
+    position: number;
+    playerId: Types.ObjectId;
+    username: string;
+    displayName: string;
+    goRank: string;
+    value: number;
+    gamesPlayed: number;
+    gamesWon: number;
+    computedAt: Date;
+}
+
+export interface LeaderboardPage {
+    filter: LeaderboardFilter;
+    periodStart: Date | null;
+    // When the board was last recomputed; null while it has no entries
+    computedAt: Date | null;
+    total: number;
+    entries: ILeaderboardEntry[];
+    // The requesting player's own entry, wherever it falls; null when they are not on the board
+    player: ILeaderboardEntry | null;
+}
+
+// Match Analytics Types
+export type ActivityInterval = 'day' | 'week' | 'month';
+
+export type GameLengthMeasure = 'moves' | 'duration';
+
+export interface AnalyticsFilter {
+    startDate?: Date;
+    endDate?: Date;
+    boardSize?: number;
+}
+
+export interface ActivityPoint {
+    // Start of the day, week (Monday) or month, in UTC
+    period: Date;
+    games: number;
+}
+
+export interface PeakConcurrency {
+    peak: number;
+    // When the peak was first reached
+    at: Date | null;
+}
+
+export interface GameLengthBucket {
+    min: number;
+    // null for the open-ended last bucket
+    max: number | null;
+    games: number;
+}
+
+export interface ColorWinRate {
+    boardSize: number;
+    games: number;
+    blackWins: number;
+    whiteWins: number;
+    draws: number;
+    blackWinRate: number;
+    whiteWinRate: number;
+}
+
+export interface EndReasonCount {
+    endReason: EndReason;
+    games: number;
+    percentage: number;
+}
+
+// Review Types
+export interface IReview extends Document {
+    matchId: Types.ObjectId;
+    owner: Types.ObjectId;
+    title: string;
+    // Players of the reviewed match, copied when the review is created
+    players: Types.ObjectId[];
+    reviewers: Types.ObjectId[];
+    notes: ReviewNote[];
+    variations: ReviewVariationNode[];
+    createdAt: Date;
+    updatedAt: Date;
+    getRole(playerId: Types.ObjectId): ReviewRole | null;
+}
+
+// The owner manages the review; the match players and invited reviewers may annotate it
+export type ReviewRole = 'owner' | 'player' | 'reviewer';
+
+export type MarkupType = 'triangle' | 'square' | 'circle' | 'cross' | 'label' | 'territory-black' | 'territory-white';
+
+export interface BoardMarkup {
+    type: MarkupType;
+    x: number;
+    y: number;
+    // Text for 'label' marks
+    label?: string;
+}
+
+// Comment and markup on the main-line position after `moveNumber` moves (0 is the start)
+export interface ReviewNote {
+    moveNumber: number;
+    comment: string;
+    markup: BoardMarkup[];
+    author: Types.ObjectId;
+    updatedAt: Date;
+}
+
+// One move of an alternative line. Nodes without a parent branch off the main line
+// after `moveNumber` moves; their descendants share the same `moveNumber`.
+export interface ReviewVariationNode {
+    nodeId: string;
+    parentId: string | null;
+    moveNumber: number;
+    color: StoneColor;
+    x: number;
+    y: number;
+    pass: boolean;
+    comment: string;
+    markup: BoardMarkup[];
+    author: Types.ObjectId;
+    createdAt: Date;
+}
+
 // Game Types
 export interface IGame extends Document {
     gameId: string;
@@ -160,6 +518,11 @@ export interface IGame extends Document {
     gameSettings: GameSessionSettings;
     boardState: GameBoardState;
     gameRules: GameRules;
+    scoringState?: ScoringState;
+    finalScore?: ScoreBreakdown;
+    undoRequest?: UndoRequest | null;
+    handicapSuggestion?: HandicapSuggestion | null;
+    result?: GameSessionResult;
     metadata: GameMetadata;
     chat: ChatMessage[];
     updatedAt: Date;
@@ -169,9 +532,24 @@ export interface IGame extends Document {
     passTurn(playerId: Types.ObjectId, color: StoneColor): boolean;
     getGameState(): GameStateResponse;
     startGame(): void;
-}
-
-export type GameSessionStatus = 'waiting' | 'active' | 'paused' | 'completed' | 'abandoned';
+    isPlacingHandicap(): boolean;
+    calculateScore(): ScoreBreakdown;
+    toggleDeadGroup(x: number, y: number): BoardPosition[];
+    acceptScore(playerId: Types.ObjectId): boolean;
+    resumePlay(): void;
+    requestUndo(playerId: Types.ObjectId): void;
+    suggestHandicap(ratings: [number, number]): HandicapSuggestion;
+    setHandicap(handicap: number, komi: number, blackPlayerId: Types.ObjectId): void;
+    undoLastMove(): GameMoveHistory;
+    restoreBoardState(): void;
+    chargeClock(color: StoneColor, now?: Date, completedTurn?: boolean): void;
+    handleTimeout(color: StoneColor): void;
+    resign(playerId: Types.ObjectId): void;
+    finishGame(endReason: EndReason, winnerColor: StoneColor | null): void;
+    getClockState(now?: Date): GameClockResponse | undefined;
+}
+
+export type GameSessionStatus = 'waiting' | 'active' | 'paused' | 'scoring' | 'completed' | 'abandoned';
 
 export interface GamePlayer {
     playerId: Types.ObjectId;
@@ -182,6 +560,7 @@ export interface GamePlayer {
     isConnected: boolean;
     lastSeen: Date;
     timeRemaining?: number;
+    clock?: PlayerClock;
     score: number;
     capturedStones: number;
 }
@@ -190,12 +569,22 @@ export interface GameSessionSettings {
     boardSize: 9 | 13 | 19;
     timeControl: TimeControl;
     timeLimit?: number;
+    clock?: ClockSettings;
     handicap: number;
+    handicapPlacement: HandicapPlacement;
     komi: number;
     allowUndo: boolean;
     allowResign: boolean;
+    rated: boolean;
+    handicapMode: HandicapMode;
 }
 
+// 'auto' proposes handicap and komi from the players' ratings once the second player joins
+export type HandicapMode = 'manual' | 'auto';
+
+// 'fixed' places the stones on the standard star points; 'free' lets black place them as its first moves
+export type HandicapPlacement = 'fixed' | 'free';
+
 export interface GameBoardState {
     currentTurn: StoneColor;
     moveCount: number;
@@ -204,6 +593,8 @@ export interface GameBoardState {
     capturedStones: CapturedStones;
     moveHistory: GameMoveHistory[];
     consecutivePasses: number;
+    koPoint?: BoardPosition | null;
+    positionHashes: string[];
 }
 
 export interface GameBoardCell {
@@ -228,7 +619,69 @@ export interface GameRules {
     scoringMethod: ScoringMethod;
 }
 
+export interface ColorScore {
+    stones: number;
+    territory: number;
+    prisoners: number;
+    komi: number;
+    total: number;
+}
+
+export interface TerritoryMap {
+    black: BoardPosition[];
+    white: BoardPosition[];
+    neutral: BoardPosition[];
+}
+
+export interface ScoreBreakdown {
+    scoringMethod: ScoringMethod;
+    black: ColorScore;
+    white: ColorScore;
+    winner: StoneColor | null;
+    margin: number;
+    territory: TerritoryMap;
+}
+
+// Dead stone negotiation after two consecutive passes
+export interface ScoringState {
+    deadStones: BoardPosition[];
+    acceptedBy: Types.ObjectId[];
+}
+
+// Outcome recorded on a game session when it completes
+export interface GameSessionResult {
+    winner: Types.ObjectId | null;
+    winnerColor: StoneColor | null;
+    loser: Types.ObjectId | null;
+    endReason: EndReason;
+    moveNumber: number;
+    endedAt: Date;
+    // Match record created from this game
+    matchId?: Types.ObjectId;
+}
+
+// Pending takeback awaiting the opponent's answer
+export interface UndoRequest {
+    requestedBy: Types.ObjectId;
+    requestedAt: Date;
+    moveNumber: number;
+}
+
+export type HandicapSuggestionStatus = 'pending' | 'accepted' | 'overridden';
+
+// Handicap and komi proposed from the rating gap; the game cannot start while it is pending
+export interface HandicapSuggestion {
+    handicap: number;
+    komi: number;
+    // Strength difference in ranks (stones on the game's board size)
+    rankGap: number;
+    blackPlayerId: Types.ObjectId;
+    status: HandicapSuggestionStatus;
+    suggestedAt: Date;
+}
+
 export type KoRule = 'standard' | 'superko';
+export type IllegalMoveCode = 'INVALID_COORDINATES' | 'OCCUPIED' | 'SUICIDE' | 'KO' | 'SUPERKO';
 export type ScoringMethod = 'area' | 'territory';
 
 export interface GameMetadata {
@@ -236,6 +689,8 @@ export interface GameMetadata {
     createdAt: Date;
     startedAt?: Date;
     lastActivity: Date;
+    // When the player on move started thinking; null while no clock is running
+    turnStartedAt?: Date | null;
     spectators: Types.ObjectId[];
     maxSpectators: number;
 }
@@ -260,9 +715,24 @@ export interface GameStateResponse {
     players: GamePlayerResponse[];
     gameSettings: GameSessionSettings;
     boardState: GameBoardStateResponse;
+    scoringState?: ScoringState;
+    finalScore?: ScoreBreakdown;
+    undoRequest?: UndoRequest | null;
+    handicapSuggestion?: HandicapSuggestion | null;
+    result?: GameSessionResult;
+    clock?: GameClockResponse;
     metadata: GameMetadataResponse;
 }
 
+export interface GameClockResponse {
+    settings: ClockSettings;
+    running: StoneColor | null;
+    turnStartedAt?: Date | null;
+    serverTime: Date;
+    // Clocks as they stand at serverTime, with the running clock already charged
+    players: Record<StoneColor, PlayerClock & { timeUntilFlag: number }>;
+}
+
 export interface GamePlayerResponse {
     playerId: Types.ObjectId;
     username: string;
@@ -281,6 +751,7 @@ export interface GameBoardStateResponse {
     lastMove?: LastMove;
     board: GameBoardCell[][];
     capturedStones: CapturedStones;
+    koPoint?: BoardPosition | null;
 }
 
 export interface GameMetadataResponse {
@@ -339,6 +810,11 @@ export interface SocketEvents {
     'move-made': (data: MoveMadeData) => void;
     'turn-passed': (data: TurnPassedData) => void;
     'chat-message': (data: ChatMessageData) => void;
+    'scoring-updated': (data: ScoringUpdatedData) => void;
+    'handicap-suggested': (data: HandicapSuggestedData) => void;
+    'handicap-resolved': (data: HandicapResolvedData) => void;
+    'undo-requested': (data: UndoRequestedData) => void;
+    'undo-resolved': (data: UndoResolvedData) => void;
     'game-ended': (data: GameEndedData) => void;
     'game-deleted': (data: GameDeletedData) => void;
 }
@@ -408,6 +884,43 @@ export interface ChatMessageData {
     };
 }
 
+export interface ScoringUpdatedData {
+    gameId: string;
+    action: 'started' | 'toggled' | 'accepted' | 'resumed';
+    playerId?: Types.ObjectId;
+    username?: string;
+    scoringState?: ScoringState;
+    score?: ScoreBreakdown;
+    gameState: GameStateResponse;
+}
+
+export interface HandicapSuggestedData {
+    gameId: string;
+    suggestion: HandicapSuggestion;
+    gameState: GameStateResponse;
+}
+
+export interface HandicapResolvedData {
+    gameId: string;
+    status: Exclude<HandicapSuggestionStatus, 'pending'>;
+    gameState: GameStateResponse;
+}
+
+export interface UndoRequestedData {
+    gameId: string;
+    playerId: Types.ObjectId;
+    username: string;
+    moveNumber: number;
+}
+
+export interface UndoResolvedData {
+    gameId: string;
+    accepted: boolean;
+    playerId: Types.ObjectId;
+    username: string;
+    gameState: GameStateResponse;
+}
+
 export interface GameEndedData {
     gameId: string;
     reason: string;
@@ -416,6 +929,9 @@ export interface GameEndedData {
         username: string;
         color: StoneColor;
     };
+    result?: GameSessionResult;
+    score?: ScoreBreakdown;
+    matchId?: Types.ObjectId;
 }
 
 export interface GameDeletedData {